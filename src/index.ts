@@ -9,24 +9,37 @@
 
 'use strict'
 
-import { resolve, join } from 'node:path'
-import { readFileSync } from 'node:fs'
-import { readFile, writeFile } from 'node:fs/promises'
-import { gunzip as gunzipCallback, gzip as gzipCallback } from 'node:zlib'
+import { basename, dirname, isAbsolute, join, parse, resolve } from 'node:path'
+import { randomBytes } from 'node:crypto'
+import { Dirent, existsSync, readFileSync, readdirSync } from 'node:fs'
+import { readFile, rename, rm, writeFile } from 'node:fs/promises'
+import {
+  ZlibOptions,
+  gunzip as gunzipCallback,
+  gzip as gzipCallback,
+} from 'node:zlib'
 import { promisify } from 'node:util'
+import { fileURLToPath } from 'node:url'
 
 import {
   Application,
   Comment,
+  CommentDisplayPart,
+  Converter,
   DeclarationReflection,
   DefaultTheme,
   DocumentReflection,
   EntryPointStrategy,
   IndexEvent,
+  JSX,
+  ParameterType,
   ProjectReflection,
   Reflection,
   ReflectionKind,
   RendererEvent,
+  SignatureReflection,
+  Slugger,
+  TypeDocOptions,
 } from 'typedoc'
 
 import { Builder, trimmer } from 'lunr'
@@ -85,786 +98,5007 @@ export function isJSONArray(value: unknown): value is JSONArray {
   return value.every((value) => isJSONValue(value))
 }
 
-export async function readGzipJson(file: string, jsVariable?: string) {
-  let content = await readFile(file, {
-    // TODO: detect encoding?
-    encoding: 'utf8',
-  })
-
-  if (jsVariable) {
-    content = content.replace(
-      new RegExp(
-        `^${jsVariable.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')} = "([^"]*)";?$`
-      ),
-      '$1'
-    )
-  }
+export type JSONIssue = {
+  /** JSON path of the mismatch, e.g. `$.rows[3].url`. */
+  path: string
+  message: string
+}
 
-  content = content.replace(/^data:application\/octet-stream;base64,/, '')
+export type JSONSchema<T = JSONValue> = {
+  /** Only carries the inferred type, always `undefined` at runtime. */
+  readonly type?: T
+  readonly description: string
+  readonly optional?: boolean
+  check(
+    value: unknown,
+    path: string,
+    issues: JSONIssue[],
+    all: boolean
+  ): boolean
+}
 
-  let buffer = Buffer.from(content, 'base64')
+export type InferJSONSchema<S> = S extends JSONSchema<infer T> ? T : never
+
+type OptionalShapeKeys<Shape> = {
+  [K in keyof Shape]: Shape[K] extends { optional: true } ? K : never
+}[keyof Shape]
+
+type InferJSONShape<Shape extends Record<string, JSONSchema<unknown>>> = {
+  [K in Exclude<keyof Shape, OptionalShapeKeys<Shape>>]: InferJSONSchema<
+    Shape[K]
+  >
+} & {
+  [K in OptionalShapeKeys<Shape>]?: InferJSONSchema<Shape[K]>
+} extends infer T
+  ? { [K in keyof T]: T[K] }
+  : never
+
+function describeJSON(value: unknown) {
+  if (value === null) {
+    return 'null'
+  }
 
-  buffer = await gunzip(buffer)
+  if (Array.isArray(value)) {
+    return 'an array'
+  }
 
-  return JSON.parse(buffer.toString()) as JSONValue
+  return typeof value === 'object' ? 'an object' : JSON.stringify(value)
 }
 
-export async function writeGzipJson(
-  file: string,
-  value: JSONValue,
-  jsVariable?: string
-) {
-  let buffer = Buffer.from(JSON.stringify(value))
-
-  buffer = await gzip(buffer)
-
-  let content = buffer.toString('base64')
+function typeSchema<T>(
+  name: string,
+  test: (value: unknown) => boolean
+): JSONSchema<T> {
+  return {
+    description: name,
+    check(value, path, issues) {
+      if (test(value)) {
+        return true
+      }
 
-  content = `data:application/octet-stream;base64,${content}`
+      issues.push({
+        path,
+        message: `Expected ${name}, got ${describeJSON(value)}`,
+      })
 
-  if (jsVariable) {
-    content = `${jsVariable} = "${content}";`
+      return false
+    },
   }
-
-  // TODO: encoding?
-  await writeFile(file, content)
 }
 
-/** @deprecated */
-export type Search = {
-  rows: SearchItem[]
-} & Readonly<{
-  index: Readonly<object>
-}>
+export function jsonString() {
+  return typeSchema<string>('a string', (value) => typeof value === 'string')
+}
 
-export type SearchItem = {
-  url: string
-  kind?: ReflectionKind
-  name?: string
-  classes?: string
-  parent?: string
-  comment?: string
-  document?: string
-  boost?: number
+export function jsonNumber() {
+  return typeSchema<number>(
+    'a number',
+    (value) => typeof value === 'number' && isFinite(value)
+  )
 }
 
-export type AlterSearchCallback = (
-  items: SearchItem[],
-  context: { app: Application; event: RendererEvent }
-) => void | Promise<void>
+export function jsonBoolean() {
+  return typeSchema<boolean>('a boolean', (value) => typeof value === 'boolean')
+}
 
-export type FormatSearchCallback = (
-  item: SearchItem & Readonly<{ url: string }>,
-  context: {
-    app: Application
-    event: RendererEvent
-    reflection?: DeclarationReflection | DocumentReflection
-  }
-) => void | Promise<void>
+export function jsonNull() {
+  return typeSchema<null>('null', (value) => value === null)
+}
 
-/** @deprecated Use {@link alterSearch} and {@link formatSearch} instead. */
-export async function readSearch(app: Application) {
-  return (await readGzipJson(
-    resolve(app.options.getValue('out'), 'assets', 'search.js'),
-    'window.searchData'
-  )) as Search
+/** Accepts any {@link JSONValue}. */
+export function jsonAny() {
+  return typeSchema<JSONValue>('a JSON value', isJSONValue)
 }
 
-/** @deprecated Use {@link alterSearch} and {@link formatSearch} instead. */
-export function rebuildSearch(
-  search: Search,
-  app: Application,
-  event: RendererEvent,
-  options?: {
-    formatName?: (
-      name: string | undefined,
-      reflection: DeclarationReflection | DocumentReflection | undefined
-    ) => string | undefined
-    formatComment?: (
-      comment: string | undefined,
-      reflection: DeclarationReflection | DocumentReflection | undefined
-    ) => string | undefined
-    formatDocument?: (
-      document: string | undefined,
-      reflection: DeclarationReflection | DocumentReflection | undefined
-    ) => string | undefined
-  }
+export function jsonLiteral<T extends string | number | boolean | null>(
+  ...values: T[]
 ) {
-  const searchInComments = !!app.options.getValue('searchInComments')
-  const searchInDocuments = !!app.options.getValue('searchInDocuments')
-
-  const theme = app.renderer.theme! as DefaultTheme
+  return typeSchema<T>(
+    values.map((value) => JSON.stringify(value)).join(' or '),
+    (value) => values.includes(value as T)
+  )
+}
 
-  const reflections = Object.values(event.project.reflections).filter(
-    (reflection) =>
-      (reflection instanceof DeclarationReflection ||
-        reflection instanceof DocumentReflection) &&
-      reflection.url &&
-      reflection.name &&
-      !reflection.flags.isExternal
-  ) as (DeclarationReflection | DocumentReflection)[]
+/** Marks an object member as optional, a missing key then passes. */
+export function jsonOptional<T>(
+  schema: JSONSchema<T>
+): JSONSchema<T | undefined> & { optional: true } {
+  return {
+    get description() {
+      return schema.description
+    },
+    optional: true,
+    check(value, path, issues, all) {
+      return schema.check(value, path, issues, all)
+    },
+  }
+}
 
-  const indexEvent = new IndexEvent(reflections)
+export function jsonArray<T>(items: JSONSchema<T>): JSONSchema<T[]> {
+  return {
+    description: 'an array',
+    check(value, path, issues, all) {
+      if (!Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `Expected an array, got ${describeJSON(value)}`,
+        })
+
+        return false
+      }
 
-  app.renderer.trigger(IndexEvent.PREPARE_INDEX, indexEvent)
+      let valid = true
 
-  const builder = new Builder()
-  builder.pipeline.add(trimmer)
+      for (const [index, item] of value.entries()) {
+        if (!items.check(item, `${path}[${index}]`, issues, all)) {
+          valid = false
 
-  builder.ref('id')
+          if (!all) {
+            break
+          }
+        }
+      }
 
-  for (const [key, boost] of Object.entries(indexEvent.searchFieldWeights)) {
-    builder.field(key, { boost })
+      return valid
+    },
   }
+}
 
-  for (const [id, row] of search.rows.entries()) {
-    if (!row.url) {
-      continue
-    }
-
-    const reflectionIndex = reflections.findIndex(
-      (reflection) => reflection.url === row.url
-    )
-    const reflection =
-      reflectionIndex === -1 ? undefined : reflections[reflectionIndex]
+function jsonPathKey(path: string, key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`
+}
 
-    if (reflection) {
-      if (row.kind === undefined) {
-        row.kind = reflection.kind
+/** Members not included in `shape` are allowed and not validated. */
+export function jsonObject<Shape extends Record<string, JSONSchema<unknown>>>(
+  shape: Shape
+): JSONSchema<InferJSONShape<Shape>> {
+  return {
+    description: 'an object',
+    check(value, path, issues, all) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `Expected an object, got ${describeJSON(value)}`,
+        })
+
+        return false
       }
 
-      if (row.name === undefined) {
-        row.name = reflection.name
-      }
+      let valid = true
 
-      if (row.classes === undefined) {
-        row.classes = theme.getReflectionClasses(reflection)
-      }
+      for (const [key, schema] of Object.entries(shape)) {
+        const member = (value as Record<string, unknown>)[key]
 
-      if (row.parent === undefined) {
-        let parent = reflection.parent
+        if (member === undefined) {
+          if (schema.optional) {
+            continue
+          }
 
-        if (parent instanceof ProjectReflection) {
-          parent = undefined
+          issues.push({
+            path: jsonPathKey(path, key),
+            message: 'Missing required member',
+          })
+
+          valid = false
+        } else if (!schema.check(member, jsonPathKey(path, key), issues, all)) {
+          valid = false
         }
 
-        if (parent) {
-          row.parent = parent.getFullName()
+        if (!valid && !all) {
+          break
         }
       }
 
-      if (row.comment === undefined && searchInComments) {
-        const comments: Comment[] = []
-
-        if (reflection.comment) {
-          comments.push(reflection.comment)
-        }
+      return valid
+    },
+  }
+}
 
-        if (reflection.isDeclaration()) {
-          for (const signature of reflection.signatures ?? []) {
-            if (!signature.comment) {
-              continue
-            }
+/** An object with any keys whose members all match `members`. */
+export function jsonRecord<T>(
+  members: JSONSchema<T>
+): JSONSchema<Record<string, T>> {
+  return {
+    description: 'an object',
+    check(value, path, issues, all) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `Expected an object, got ${describeJSON(value)}`,
+        })
+
+        return false
+      }
 
-            comments.push(signature.comment)
-          }
+      let valid = true
 
-          if (reflection.getSignature?.comment) {
-            comments.push(reflection.getSignature.comment)
-          }
+      for (const [key, member] of Object.entries(value)) {
+        if (!members.check(member, jsonPathKey(path, key), issues, all)) {
+          valid = false
 
-          if (reflection.setSignature?.comment) {
-            comments.push(reflection.setSignature.comment)
+          if (!all) {
+            break
           }
         }
-
-        if (comments.length) {
-          row.comment = comments
-            .flatMap((comment) => [
-              ...comment.summary,
-              ...comment.blockTags.flatMap((token) => token.content),
-            ])
-            .map((part) => part.text)
-            .join('\n')
-        }
-      }
-
-      if (
-        row.document === undefined &&
-        searchInDocuments &&
-        reflection.isDocument()
-      ) {
-        row.document = reflection.content
-          .flatMap((part) => part.text)
-          .join('\n')
       }
 
-      if (row.boost === undefined) {
-        row.boost = reflection.relevanceBoost ?? 1
+      return valid
+    },
+  }
+}
 
-        if (row.boost <= 0) {
-          row.boost = 1
+export function jsonUnion<Schemas extends JSONSchema<unknown>[]>(
+  ...schemas: Schemas
+): JSONSchema<InferJSONSchema<Schemas[number]>> {
+  const union: JSONSchema<InferJSONSchema<Schemas[number]>> = {
+    get description() {
+      return schemas.map((schema) => schema.description).join(' or ')
+    },
+    check(value, path, issues, all) {
+      const unionIssues: JSONIssue[] = []
+
+      for (const schema of schemas) {
+        const schemaIssues: JSONIssue[] = []
+
+        if (schema.check(value, path, schemaIssues, all)) {
+          return true
         }
+
+        unionIssues.push(...schemaIssues)
       }
-    }
 
-    if (options?.formatName) {
-      row.name = options.formatName(row.name, reflection)
-    }
+      // report the issue of the schema that got the furthest, if any did
+      const deepest = unionIssues.reduce<JSONIssue | undefined>(
+        (deepest, issue) =>
+          issue.path.length > (deepest?.path.length ?? path.length)
+            ? issue
+            : deepest,
+        undefined
+      )
 
-    if (options?.formatComment) {
-      row.comment = options.formatComment(row.comment, reflection)
-    }
+      issues.push(
+        deepest ?? {
+          path,
+          message: `Expected ${union.description}, got ${describeJSON(value)}`,
+        }
+      )
 
-    if (options?.formatDocument) {
-      row.document = options.formatDocument(row.document, reflection)
-    }
+      return false
+    },
+  }
 
-    builder.add(
-      {
-        name: row.name,
-        comment: row.comment,
-        document: row.document,
-        ...(reflection ? indexEvent.searchFields[reflectionIndex] : {}),
-        id,
-      },
-      {
-        boost: row.boost,
-      }
-    )
+  return union
+}
 
-    delete row.comment
-    delete row.document
-    delete row.boost
+/** Defers creating the schema, used for recursive structures. */
+export function jsonLazy<T>(getSchema: () => JSONSchema<T>): JSONSchema<T> {
+  return {
+    get description() {
+      return getSchema().description
+    },
+    check(value, path, issues, all) {
+      return getSchema().check(value, path, issues, all)
+    },
   }
+}
 
-  // ignore read-only internally
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  ;(search as any).index = builder.build().toJSON()
+/**
+ * Validates `value` against `schema`, collecting only the first issue unless
+ * `all` is set.
+ *
+ * @example
+ *
+ * ```ts
+ * import {
+ *   jsonArray,
+ *   jsonObject,
+ *   jsonOptional,
+ *   jsonString,
+ *   validateJSON,
+ * } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * const configSchema = jsonObject({
+ *   name: jsonString(),
+ *   tags: jsonOptional(jsonArray(jsonString())),
+ * })
+ *
+ * const result = validateJSON(configSchema, JSON.parse(text))
+ *
+ * if (!result.valid) {
+ *   throw new Error(`${result.issues[0].path}: ${result.issues[0].message}`)
+ * }
+ *
+ * result.value.tags?.join(', ')
+ * ```
+ */
+export function validateJSON<T>(
+  schema: JSONSchema<T>,
+  value: unknown,
+  options?: { all?: boolean }
+): { valid: true; value: T } | { valid: false; issues: JSONIssue[] } {
+  const issues: JSONIssue[] = []
+
+  if (schema.check(value, '$', issues, !!options?.all)) {
+    return { valid: true, value: value as T }
+  }
 
-  return search
+  return { valid: false, issues }
 }
 
-/** @deprecated Use {@link alterSearch} and {@link formatSearch} instead. */
-export async function writeSearch(app: Application, search: Search) {
-  await writeGzipJson(
-    resolve(app.options.getValue('out'), 'assets', 'search.js'),
-    search as unknown as JSONValue,
-    'window.searchData'
-  )
+export function matchesJSON<T>(
+  schema: JSONSchema<T>,
+  value: unknown
+): value is T {
+  return schema.check(value, '$', [], false)
 }
 
-const searchTasksStore = new WeakMap<
-  Application,
-  {
-    alter: AlterSearchCallback[]
-    format: FormatSearchCallback[]
+export class JSONSchemaError extends Error {
+  readonly issues: JSONIssue[]
+
+  constructor(label: string, issues: JSONIssue[]) {
+    super(
+      `Invalid ${label}: ${issues
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join(', ')}`
+    )
+
+    this.name = 'JSONSchemaError'
+    this.issues = issues
   }
->()
+}
 
-function getSearchTasks(app: Application) {
-  if (searchTasksStore.has(app)) {
-    return searchTasksStore.get(app)!
+/** @throws {@link JSONSchemaError} if `value` does not match `schema`. */
+export function assertJSON<T>(
+  schema: JSONSchema<T>,
+  value: unknown,
+  label: string,
+  options?: { all?: boolean }
+): T {
+  const result = validateJSON(schema, value, options)
+
+  if (!result.valid) {
+    throw new JSONSchemaError(label, result.issues)
   }
 
-  const searchTasks: {
-    alter: AlterSearchCallback[]
-    format: FormatSearchCallback[]
-  } = { alter: [], format: [] }
+  return result.value
+}
 
-  searchTasksStore.set(app, searchTasks)
+// the same as `NoInfer`, which needs TypeScript 5.4
+type NoInference<T> = [T][T extends unknown ? 0 : never]
 
-  app.renderer.postRenderAsyncJobs.push(async (event) => {
-    const search = (await readGzipJson(
-      resolve(app.options.getValue('out'), 'assets', 'search.js'),
-      'window.searchData'
-    )) as {
-      rows: SearchItem[]
-      index: object
-    }
+export type PluginOptionSpec<T> = {
+  help: string
+  schema: JSONSchema<T>
+  defaultValue: NoInference<T>
+}
 
-    for (const alter of searchTasks.alter) {
-      await alter(search.rows, { app, event })
-    }
+/**
+ * Declares a TypeDoc option for every member of `spec`, named `namespace`
+ * followed by the capitalized member name. Values from `typedoc.json` and the
+ * command line are checked against the member's schema, mismatches fail with
+ * the path of every invalid value. If an option is already declared, e.g. by
+ * another plugin, its value is checked against the schema when declaring and
+ * on every read instead.
+ *
+ * Returns a function that reads the current value of every option. Options can
+ * only be declared before TypeDoc freezes them after bootstrap, options that
+ * are declared later always have their default value.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import {
+ *   declarePluginOptions,
+ *   formatSearch,
+ *   jsonArray,
+ *   jsonString,
+ * } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   // declares the `hideSearchPrefixes` option
+ *   const getOptions = declarePluginOptions(app, 'hideSearch', {
+ *     prefixes: {
+ *       help: 'Names starting with one of these are removed from search.',
+ *       schema: jsonArray(jsonString()),
+ *       defaultValue: ['_'],
+ *     },
+ *   })
+ *
+ *   formatSearch(app, (item, { remove }) => {
+ *     const { prefixes } = getOptions()
+ *
+ *     if (prefixes.some((prefix) => item.name?.startsWith(prefix))) {
+ *       remove()
+ *     }
+ *   })
+ * }
+ * ```
+ */
+export function declarePluginOptions<Values extends Record<string, unknown>>(
+  app: Application,
+  namespace: string,
+  spec: { [K in keyof Values]: PluginOptionSpec<Values[K]> }
+): () => Values {
+  const names = new Map<keyof Values, string>()
+  const defaults = new Map<keyof Values, unknown>()
+  const declaredElsewhere = new Set<keyof Values>()
+
+  for (const [key, option] of Object.entries(spec) as [
+    keyof Values & string,
+    PluginOptionSpec<unknown>,
+  ][]) {
+    const name = namespace + key[0].toUpperCase() + key.slice(1)
+
+    names.set(key, name)
+
+    if (app.options.getDeclaration(name)) {
+      assertJSON(
+        option.schema,
+        app.options.getValue(name as keyof TypeDocOptions),
+        `existing option ${name}`
+      )
 
-    const searchInComments = !!app.options.getValue('searchInComments')
-    const searchInDocuments = !!app.options.getValue('searchInDocuments')
+      declaredElsewhere.add(key)
 
-    const theme = app.renderer.theme! as DefaultTheme
+      continue
+    }
 
-    const reflections = Object.values(event.project.reflections).filter(
-      (reflection) =>
-        (reflection instanceof DeclarationReflection ||
-          reflection instanceof DocumentReflection) &&
-        reflection.url &&
-        reflection.name &&
-        !reflection.flags.isExternal
-    ) as (DeclarationReflection | DocumentReflection)[]
+    assertJSON(option.schema, option.defaultValue, `default value of ${name}`)
 
-    const indexEvent = new IndexEvent(reflections)
+    // e.g. the first task of a plugin is registered while rendering
+    if (app.options.isFrozen()) {
+      defaults.set(key, option.defaultValue)
+
+      continue
+    }
 
-    app.renderer.trigger(IndexEvent.PREPARE_INDEX, indexEvent)
+    app.options.addDeclaration({
+      name,
+      help: option.help,
+      type: ParameterType.Mixed,
+      defaultValue: option.defaultValue,
+      validate(value) {
+        const result = validateJSON(option.schema, value, { all: true })
+
+        if (!result.valid) {
+          throw new Error(
+            [
+              `Invalid value for option ${name}:`,
+              ...result.issues.map(
+                (issue) =>
+                  `  ${issue.path.replace(/^\$/, name)}: ${issue.message}`
+              ),
+            ].join('\n')
+          )
+        }
+      },
+    })
+  }
 
-    const builder = new Builder()
-    builder.pipeline.add(trimmer)
+  return () => {
+    const values = {} as Values
 
-    builder.ref('id')
+    for (const [key, name] of names) {
+      const value = defaults.has(key)
+        ? defaults.get(key)
+        : app.options.getValue(name as keyof TypeDocOptions)
 
-    for (const [key, boost] of Object.entries(indexEvent.searchFieldWeights)) {
-      builder.field(key, { boost })
+      values[key] = (
+        declaredElsewhere.has(key)
+          ? assertJSON(spec[key].schema, value, `option ${name}`)
+          : value
+      ) as Values[typeof key]
     }
 
-    for (const [id, item] of search.rows.entries()) {
-      const reflectionIndex = reflections.findIndex(
-        (reflection) => reflection.url === item.url
-      )
+    return values
+  }
+}
 
-      const reflection =
-        reflectionIndex === -1 ? undefined : reflections[reflectionIndex]
+export type GzipJsonMode =
+  /** Detect the format when reading, same as `'gzip'` when writing. */
+  | 'auto'
+  /** Gzipped JSON as a base64 `data:` URL, the format TypeDoc uses. */
+  | 'gzip'
+  /** Uncompressed JSON text. */
+  | 'plain'
+  /** Gzipped JSON as binary, can not be wrapped in a JS variable. */
+  | 'raw'
+
+export type GzipJsonOptions = {
+  mode?: GzipJsonMode
+  /** Text encoding of the file, `'auto'` detects BOMs and UTF-16 when reading. */
+  encoding?: 'auto' | 'utf8' | 'utf16le' | 'latin1'
+  /** Prefix the written file with a byte order mark. */
+  bom?: boolean
+}
 
-      if (reflection) {
-        if (item.kind === undefined) {
-          item.kind = reflection.kind
-        }
+export type GzipJsonStage =
+  | 'read'
+  | 'write'
+  | 'unwrap'
+  | 'base64'
+  | 'gunzip'
+  | 'parse'
+
+export class GzipJsonError extends Error {
+  readonly file: string
+  readonly stage: GzipJsonStage
+  readonly snippet: string
+  readonly cause?: unknown
+
+  constructor(
+    file: string,
+    stage: GzipJsonStage,
+    content: string,
+    cause?: unknown
+  ) {
+    const snippet = content.length > 80 ? `${content.slice(0, 77)}...` : content
 
-        if (item.name === undefined) {
-          item.name = reflection.name
-        }
+    super(
+      `Could not ${stage === 'write' ? 'encode' : 'decode'} ${file} (${stage} failed)${
+        cause instanceof Error ? `: ${cause.message}` : ''
+      }${snippet ? ` (near ${JSON.stringify(snippet)})` : ''}`
+    )
 
-        if (item.classes === undefined) {
-          item.classes = theme.getReflectionClasses(reflection)
+    this.name = 'GzipJsonError'
+    this.file = file
+    this.stage = stage
+    this.snippet = snippet
+    this.cause = cause
+  }
+}
+
+const dataUrlPrefix = 'data:application/octet-stream;base64,'
+
+function isGzip(buffer: Buffer) {
+  return buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b
+}
+
+function decodeText(
+  buffer: Buffer,
+  encoding: NonNullable<GzipJsonOptions['encoding']>
+) {
+  if (encoding !== 'auto') {
+    return buffer.toString(encoding).replace(/^\uFEFF/, '')
+  }
+
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return buffer.subarray(3).toString('utf8')
+  }
+
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le')
+  }
+
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return Buffer.from(buffer.subarray(2)).swap16().toString('utf16le')
+  }
+
+  // without a BOM, ASCII content encoded as UTF-16 has every other byte empty
+  if (buffer.length >= 2 && buffer.length % 2 === 0) {
+    if (buffer[0] !== 0 && buffer[1] === 0) {
+      return buffer.toString('utf16le')
+    }
+
+    if (buffer[0] === 0 && buffer[1] !== 0) {
+      return Buffer.from(buffer).swap16().toString('utf16le')
+    }
+  }
+
+  return buffer.toString('utf8')
+}
+
+function encodeText(
+  content: string,
+  encoding: NonNullable<GzipJsonOptions['encoding']>,
+  bom: boolean
+) {
+  if (bom) {
+    content = `\uFEFF${content}`
+  }
+
+  return Buffer.from(content, encoding === 'auto' ? 'utf8' : encoding)
+}
+
+function unwrapJsVariable(file: string, content: string, jsVariable: string) {
+  const match = new RegExp(
+    `^\\s*${jsVariable.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*=\\s*([\\s\\S]*?)\\s*;?\\s*$`
+  ).exec(content)
+
+  if (!match) {
+    // allow content that was written without the wrapper
+    if (/^\s*(?:data:|[[{"\d-]|true|false|null)/.test(content)) {
+      return content.trim()
+    }
+
+    throw new GzipJsonError(file, 'unwrap', content)
+  }
+
+  const quoted = /^(["'`])([\s\S]*)\1$/.exec(match[1])
+
+  return quoted ? quoted[2] : match[1]
+}
+
+function parseJson(file: string, content: string) {
+  let value: unknown
+
+  try {
+    value = JSON.parse(content)
+  } catch (error) {
+    throw new GzipJsonError(file, 'parse', content, error)
+  }
+
+  if (!isJSONValue(value)) {
+    throw new GzipJsonError(file, 'parse', content)
+  }
+
+  return value
+}
+
+async function gunzipJson(file: string, buffer: Buffer) {
+  try {
+    buffer = await gunzip(buffer)
+  } catch (error) {
+    throw new GzipJsonError(file, 'gunzip', buffer.toString('base64'), error)
+  }
+
+  return parseJson(file, decodeText(buffer, 'auto'))
+}
+
+/**
+ * Reads a JSON value from a file written by TypeDoc or {@link writeGzipJson}.
+ * With the default `'auto'` mode the content may be wrapped in `jsVariable` or
+ * not, and may be a gzipped `data:` URL, plain JSON or raw gzip data.
+ *
+ * @throws {@link GzipJsonError} if any stage of decoding fails.
+ */
+export async function readGzipJson(
+  file: string,
+  jsVariable?: string,
+  options?: GzipJsonOptions
+) {
+  const mode = options?.mode ?? 'auto'
+
+  let buffer: Buffer
+
+  try {
+    buffer = await readFile(file)
+  } catch (error) {
+    throw new GzipJsonError(file, 'read', '', error)
+  }
+
+  if (mode === 'raw' || (mode === 'auto' && isGzip(buffer))) {
+    return await gunzipJson(file, buffer)
+  }
+
+  let content = decodeText(buffer, options?.encoding ?? 'auto')
+
+  if (jsVariable) {
+    content = unwrapJsVariable(file, content, jsVariable)
+  } else {
+    content = content.trim()
+  }
+
+  if (mode === 'plain' || (mode === 'auto' && !content.startsWith('data:'))) {
+    return parseJson(file, content)
+  }
+
+  if (content.startsWith(dataUrlPrefix)) {
+    content = content.slice(dataUrlPrefix.length)
+  } else if (content.startsWith('data:')) {
+    throw new GzipJsonError(file, 'unwrap', content)
+  }
+
+  content = content.replace(/\s+/g, '')
+
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(content)) {
+    throw new GzipJsonError(file, 'base64', content)
+  }
+
+  return await gunzipJson(file, Buffer.from(content, 'base64'))
+}
+
+export type WriteGzipJsonOptions = GzipJsonOptions & {
+  /** Write to a temporary file first and rename it into place. */
+  atomic?: boolean
+  /** Passed to zlib, e.g. `{ level: 9 }`. */
+  zlib?: ZlibOptions
+  /**
+   * Sort object keys and normalize the gzip header so that equal values always
+   * produce byte-identical files.
+   */
+  deterministic?: boolean
+}
+
+export type GzipJsonSummary = {
+  file: string
+  /** Size of the serialized JSON. */
+  jsonBytes: number
+  /** Size of the gzipped JSON, `undefined` in `'plain'` mode. */
+  gzipBytes?: number
+  /** Size of the written file. */
+  fileBytes: number
+}
+
+function sortJsonKeys(value: JSONValue): JSONValue {
+  if (Array.isArray(value)) {
+    return value.map((value) => sortJsonKeys(value))
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortJsonKeys(value[key])])
+    )
+  }
+
+  return value
+}
+
+async function writeFileAtomic(file: string, content: Buffer) {
+  const tempFile = join(
+    dirname(file),
+    `.${basename(file)}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`
+  )
+
+  try {
+    await writeFile(tempFile, content)
+    await rename(tempFile, file)
+  } catch (error) {
+    await rm(tempFile, { force: true })
+
+    throw error
+  }
+}
+
+/**
+ * Writes a JSON value in the format read by {@link readGzipJson}, by default as
+ * a gzipped `data:` URL the same way TypeDoc writes its assets.
+ *
+ * @returns The sizes of the JSON before and after compression.
+ */
+export async function writeGzipJson(
+  file: string,
+  value: JSONValue,
+  jsVariable?: string,
+  options?: WriteGzipJsonOptions
+): Promise<GzipJsonSummary> {
+  const mode = options?.mode ?? 'auto'
+  const encoding = options?.encoding ?? 'auto'
+
+  if (mode === 'raw' && jsVariable) {
+    throw new GzipJsonError(
+      file,
+      'write',
+      '',
+      new Error(`'raw' mode is binary and can not be wrapped in ${jsVariable}`)
+    )
+  }
+
+  const json = Buffer.from(
+    JSON.stringify(options?.deterministic ? sortJsonKeys(value) : value)
+  )
+
+  let gzipped: Buffer | undefined
+
+  if (mode !== 'plain') {
+    gzipped = await gzip(json, options?.zlib ?? {})
+
+    if (options?.deterministic) {
+      // zero the modification time and mark the OS as unknown
+      gzipped.fill(0, 4, 8)
+      gzipped[9] = 0xff
+    }
+  }
+
+  let buffer: Buffer
+
+  if (mode === 'raw') {
+    buffer = gzipped!
+  } else {
+    let content = gzipped
+      ? `${dataUrlPrefix}${gzipped.toString('base64')}`
+      : json.toString()
+
+    if (jsVariable) {
+      content = `${jsVariable} = ${gzipped ? `"${content}"` : content};`
+    }
+
+    buffer = encodeText(content, encoding, !!options?.bom)
+  }
+
+  if (options?.atomic) {
+    await writeFileAtomic(file, buffer)
+  } else {
+    await writeFile(file, buffer)
+  }
+
+  return {
+    file,
+    jsonBytes: json.length,
+    gzipBytes: gzipped?.length,
+    fileBytes: buffer.length,
+  }
+}
+
+export type TaskOptions = {
+  /** Used to reference the task from `before`/`after` and in logs. */
+  name?: string
+  /** Tasks with a higher priority run first, defaults to `0`. */
+  priority?: number
+  /** Names of tasks that this task must run before. */
+  before?: string | string[]
+  /** Names of tasks that this task must run after. */
+  after?: string | string[]
+}
+
+type Task<Callback> = {
+  callback: Callback
+  name: string
+  priority: number
+  before: string[]
+  after: string[]
+  /** File that registered the task, used to name the plugin in errors. */
+  source?: string
+}
+
+function getCallerFile() {
+  for (const line of (new Error().stack ?? '').split('\n').slice(1)) {
+    const file = /\((.+?):\d+:\d+\)$|at (.+?):\d+:\d+$/
+      .exec(line)
+      ?.slice(1)
+      .find(Boolean)
+
+    if (file && file !== __filename && !file.startsWith('node:')) {
+      return file.startsWith('file://') ? fileURLToPath(file) : file
+    }
+  }
+}
+
+function getTaskPlugin(task: Task<unknown>) {
+  if (!task.source) {
+    return 'an unknown plugin'
+  }
+
+  let name: string | undefined
+
+  escalade(dirname(task.source), (dir, names) => {
+    if (!names.includes('package.json')) {
+      return
+    }
+
+    try {
+      const packageJson: unknown = JSON.parse(
+        readFileSync(join(dir, 'package.json'), 'utf8')
+      )
+
+      if (matchesJSON(packageIdentitySchema, packageJson)) {
+        name = packageJson.name
+      }
+    } catch {
+      // fall back to the file name
+    }
+
+    return 'package.json'
+  })
+
+  return name ?? task.source
+}
+
+function createTask<Callback>(
+  tasks: Task<Callback>[],
+  callback: Callback,
+  options?: TaskOptions
+): Task<Callback> {
+  const toArray = (value: string | string[] | undefined) =>
+    value === undefined ? [] : Array.isArray(value) ? value : [value]
+
+  return {
+    callback,
+    name: options?.name ?? `anonymous-${tasks.length + 1}`,
+    priority: options?.priority ?? 0,
+    before: toArray(options?.before),
+    after: toArray(options?.after),
+    source: getCallerFile(),
+  }
+}
+
+/**
+ * Returns the strongly connected components of more than one task among
+ * `remaining`, i.e. the tasks that are part of a cycle.
+ */
+function findTaskCycles(remaining: Set<number>, edges: Set<number>[]) {
+  const cycles: number[][] = []
+  const stack: number[] = []
+  const onStack = new Set<number>()
+  const indexes = new Map<number, number>()
+  const lowLinks = new Map<number, number>()
+
+  const visit = (node: number) => {
+    indexes.set(node, indexes.size)
+    lowLinks.set(node, indexes.get(node)!)
+    stack.push(node)
+    onStack.add(node)
+
+    for (const target of edges[node]) {
+      if (!remaining.has(target)) {
+        continue
+      }
+
+      if (!indexes.has(target)) {
+        visit(target)
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(target)!))
+      } else if (onStack.has(target)) {
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, indexes.get(target)!))
+      }
+    }
+
+    if (lowLinks.get(node) === indexes.get(node)) {
+      const component: number[] = []
+
+      let member: number
+
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== node)
+
+      if (component.length > 1) {
+        cycles.push(component)
+      }
+    }
+  }
+
+  for (const node of remaining) {
+    if (!indexes.has(node)) {
+      visit(node)
+    }
+  }
+
+  return cycles
+}
+
+function sortTasks<Callback>(
+  app: Application,
+  label: string,
+  tasks: Task<Callback>[],
+  options?: {
+    /** Skip the warnings, for callers that only report the order. */
+    silent?: boolean
+  }
+) {
+  // edges[a] contains every task index that must run after task a
+  const edges = tasks.map(() => new Set<number>())
+  const indexesByName = new Map<string, number[]>()
+
+  for (const [index, task] of tasks.entries()) {
+    indexesByName.set(task.name, [
+      ...(indexesByName.get(task.name) ?? []),
+      index,
+    ])
+  }
+
+  for (const [index, task] of tasks.entries()) {
+    for (const name of task.before) {
+      for (const other of indexesByName.get(name) ?? []) {
+        if (other !== index) {
+          edges[index].add(other)
+        }
+      }
+    }
+
+    for (const name of task.after) {
+      for (const other of indexesByName.get(name) ?? []) {
+        if (other !== index) {
+          edges[other].add(index)
+        }
+      }
+    }
+
+    if (options?.silent) {
+      continue
+    }
+
+    for (const name of [...task.before, ...task.after]) {
+      if (!indexesByName.has(name)) {
+        app.logger.warn(
+          `${label} task "${task.name}" registered by ${getTaskPlugin(
+            task
+          )} is ordered against "${name}", which is not a registered ${label} task.`
+        )
+      }
+    }
+  }
+
+  const inDegrees = tasks.map(() => 0)
+
+  for (const targets of edges) {
+    for (const target of targets) {
+      inDegrees[target]++
+    }
+  }
+
+  // higher priority first, registration order breaks ties
+  const compare = (a: number, b: number) =>
+    tasks[b].priority - tasks[a].priority || a - b
+
+  const sorted: Task<Callback>[] = []
+  const remaining = new Set(tasks.keys())
+  const reported = new Set<number>()
+
+  while (remaining.size) {
+    let ready = [...remaining].filter((index) => inDegrees[index] === 0)
+
+    if (!ready.length) {
+      // only cycles that no other remaining task has to run before
+      const cycles = findTaskCycles(remaining, edges).filter((cycle) =>
+        [...remaining].every(
+          (index) =>
+            cycle.includes(index) ||
+            cycle.every((member) => !edges[index].has(member))
+        )
+      )
+
+      for (const cycle of cycles) {
+        if (!options?.silent && cycle.some((index) => !reported.has(index))) {
+          app.logger.warn(
+            `Circular before/after constraints between ${label} tasks: ${cycle
+              .sort(compare)
+              .map((index) => tasks[index].name)
+              .join(', ')}. Falling back to priority order for these tasks.`
+          )
+        }
+
+        for (const index of cycle) {
+          reported.add(index)
+        }
+      }
+
+      ready = cycles.flat()
+    }
+
+    const index = ready.sort(compare)[0]
+
+    remaining.delete(index)
+    sorted.push(tasks[index])
+
+    for (const target of edges[index]) {
+      inDegrees[target]--
+    }
+  }
+
+  return sorted
+}
+
+function logTaskOrder<Callback>(
+  app: Application,
+  label: string,
+  tasks: Task<Callback>[]
+) {
+  if (!tasks.length) {
+    return
+  }
+
+  app.logger.verbose(
+    `${label} task order: ${tasks.map((task) => task.name).join(' > ')}`
+  )
+}
+
+type ChangeSnapshot = Map<string, JSONObject>
+
+type ChangeReport = Record<
+  'search' | 'navigation',
+  Record<
+    string,
+    {
+      added: string[]
+      removed: string[]
+      changed: {
+        item: string
+        fields: Record<string, { before?: JSONValue; after?: JSONValue }>
+      }[]
+    }
+  >
+>
+
+/** Keys snapshot items by `key`, numbering items that share a key. */
+function createChangeSnapshot<T>(
+  items: T[],
+  key: (item: T) => string,
+  value: (item: T) => object
+): ChangeSnapshot {
+  const snapshot: ChangeSnapshot = new Map()
+
+  for (const item of items) {
+    let name = key(item)
+
+    for (let count = 2; snapshot.has(name); count++) {
+      name = `${key(item)} (${count})`
+    }
+
+    // clone so later changes to the item do not alter the snapshot
+    snapshot.set(name, JSON.parse(JSON.stringify(value(item))))
+  }
+
+  return snapshot
+}
+
+function diffChangeSnapshots(
+  entry: ChangeReport['search'][string],
+  before: ChangeSnapshot,
+  after: ChangeSnapshot
+) {
+  for (const [item, value] of after) {
+    const previous = before.get(item)
+
+    if (!previous) {
+      entry.added.push(item)
+
+      continue
+    }
+
+    const fields: ChangeReport['search'][string]['changed'][number]['fields'] =
+      {}
+
+    for (const field of new Set([
+      ...Object.keys(previous),
+      ...Object.keys(value),
+    ])) {
+      if (JSON.stringify(previous[field]) !== JSON.stringify(value[field])) {
+        fields[field] = { before: previous[field], after: value[field] }
+      }
+    }
+
+    if (Object.keys(fields).length) {
+      entry.changed.push({ item, fields })
+    }
+  }
+
+  for (const item of before.keys()) {
+    if (!after.has(item)) {
+      entry.removed.push(item)
+    }
+  }
+}
+
+function formatChangeReport(report: ChangeReport) {
+  const lines = ['# Change report']
+  const code = (value: JSONValue | undefined) =>
+    value === undefined ? '_unset_' : `\`${JSON.stringify(value)}\``
+
+  for (const [asset, title] of [
+    ['search', 'Search'],
+    ['navigation', 'Navigation'],
+  ] as const) {
+    lines.push('', `## ${title}`)
+
+    const entries = Object.entries(report[asset])
+
+    if (!entries.length) {
+      lines.push('', 'No callbacks registered.')
+    }
+
+    for (const [callback, { added, removed, changed }] of entries) {
+      lines.push('', `### ${callback}`, '')
+
+      if (!added.length && !removed.length && !changed.length) {
+        lines.push('No changes.')
+      }
+
+      for (const item of added) {
+        lines.push(`- Added \`${item}\``)
+      }
+
+      for (const item of removed) {
+        lines.push(`- Removed \`${item}\``)
+      }
+
+      for (const { item, fields } of changed) {
+        lines.push(
+          `- Changed \`${item}\`: ${Object.entries(fields)
+            .map(
+              ([field, { before, after }]) =>
+                `${field} ${code(before)} → ${code(after)}`
+            )
+            .join(', ')}`
+        )
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+type AssetTransaction = {
+  event: RendererEvent
+  /** Decodes an asset, every asset is only read once per render. */
+  read(file: string, jsVariable: string): Promise<JSONValue>
+  /** Replaces an asset, all assets are written once every job has finished. */
+  write(
+    file: string,
+    jsVariable: string | undefined,
+    value: JSONValue,
+    options?: GzipJsonOptions
+  ): void
+  /** Adds the duration of `callback` to the verbose timings under `label`. */
+  time<T>(label: string, callback: () => T | Promise<T>): Promise<T>
+  /**
+   * Calls a registered task for `target`, handling errors according to the
+   * `libUtilsCallbackErrors` option. Resolves to `false` if the item the task
+   * was called for should be skipped.
+   */
+  run<Callback>(
+    label: string,
+    task: Task<Callback>,
+    target: string,
+    callback: () => unknown
+  ): Promise<boolean>
+  /**
+   * Snapshots the items of `asset` for the change report if the
+   * `libUtilsChangeReport` option is on. Call the returned function once
+   * `task` has run to record the items it added, removed or changed.
+   */
+  track(
+    asset: keyof ChangeReport,
+    label: string,
+    task: { name: string },
+    snapshot: () => ChangeSnapshot
+  ): () => void
+}
+
+type PostRenderOptions = {
+  callbackErrors: 'skipCallback' | 'skipItem' | 'abort'
+  changeReport: 'off' | 'json' | 'markdown'
+}
+
+function createAssetTransaction(
+  app: Application,
+  event: RendererEvent,
+  options: PostRenderOptions
+) {
+  const assets = new Map<
+    string,
+    {
+      jsVariable?: string
+      options?: GzipJsonOptions
+      value: Promise<JSONValue>
+      changed: boolean
+    }
+  >()
+
+  const timings = new Map<string, number>()
+
+  const report: ChangeReport | undefined =
+    options.changeReport === 'off' ? undefined : { search: {}, navigation: {} }
+
+  const transaction: AssetTransaction = {
+    event,
+    read(file, jsVariable) {
+      file = resolve(file)
+
+      if (!assets.has(file)) {
+        assets.set(file, {
+          jsVariable,
+          value: transaction.time(`read ${basename(file)}`, () =>
+            readGzipJson(file, jsVariable)
+          ),
+          changed: false,
+        })
+      }
+
+      return assets.get(file)!.value
+    },
+    write(file, jsVariable, value, options) {
+      assets.set(resolve(file), {
+        jsVariable,
+        options,
+        value: Promise.resolve(value),
+        changed: true,
+      })
+    },
+    async time(label, callback) {
+      const start = performance.now()
+
+      try {
+        return await callback()
+      } finally {
+        timings.set(
+          label,
+          (timings.get(label) ?? 0) + performance.now() - start
+        )
+      }
+    },
+    async run(label, task, target, callback) {
+      try {
+        await transaction.time(`${label} ${task.name}`, callback)
+
+        return true
+      } catch (error) {
+        app.logger.error(
+          `${label} task "${task.name}" registered by ${getTaskPlugin(
+            task
+          )} failed for ${target}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+
+        if (error instanceof Error && error.stack) {
+          app.logger.verbose(error.stack)
+        }
+
+        if (options.callbackErrors === 'abort') {
+          throw error
+        }
+
+        return options.callbackErrors !== 'skipItem'
+      }
+    },
+    track(asset, label, task, snapshot) {
+      if (!report) {
+        return () => {}
+      }
+
+      const before = snapshot()
+
+      return () => {
+        const entry = (report[asset][`${label} ${task.name}`] ??= {
+          added: [],
+          removed: [],
+          changed: [],
+        })
+
+        diffChangeSnapshots(entry, before, snapshot())
+      }
+    },
+  }
+
+  return {
+    transaction,
+    async commit() {
+      await Promise.all(
+        [...assets.entries()]
+          .filter(([, asset]) => asset.changed)
+          .map(async ([file, asset]) => {
+            await transaction.time(`write ${basename(file)}`, async () =>
+              writeGzipJson(file, await asset.value, asset.jsVariable, {
+                ...asset.options,
+                atomic: true,
+              })
+            )
+          })
+      )
+
+      if (report) {
+        const markdown = options.changeReport === 'markdown'
+
+        await writeFile(
+          resolve(
+            event.outputDirectory,
+            markdown ? 'change-report.md' : 'change-report.json'
+          ),
+          markdown
+            ? formatChangeReport(report)
+            : JSON.stringify(report, null, 2) + '\n'
+        )
+      }
+    },
+    logTimings() {
+      for (const [label, duration] of timings) {
+        app.logger.verbose(
+          `Post-render ${label} took ${Math.round(duration)}ms`
+        )
+      }
+    },
+  }
+}
+
+type PostRenderJob = {
+  name: string
+  /** The job reads the rendered pages. */
+  pages?: boolean
+  run: (transaction: AssetTransaction) => Promise<void>
+}
+
+// set by `runFixtureTasks` on events for which no pages were rendered
+const withoutPages = Symbol.for('@mrfigg/typedoc-plugin-lib-utils/withoutPages')
+
+const postRenderJobsStore = new WeakMap<
+  Application,
+  { assets: PostRenderJob[]; checks: PostRenderJob[] }
+>()
+
+/**
+ * Runs all post-render work as a single job: every asset is decoded once, the
+ * asset jobs run concurrently against the decoded values, then every changed
+ * asset is written once and finally the check jobs run one after another.
+ */
+function getPostRenderJobs(app: Application) {
+  if (postRenderJobsStore.has(app)) {
+    return postRenderJobsStore.get(app)!
+  }
+
+  const postRenderJobs: { assets: PostRenderJob[]; checks: PostRenderJob[] } = {
+    assets: [],
+    checks: [],
+  }
+
+  postRenderJobsStore.set(app, postRenderJobs)
+
+  const getOptions = declarePluginOptions<PostRenderOptions>(app, 'libUtils', {
+    callbackErrors: {
+      help: 'What to do when a search, navigation, asset or page callback registered by a plugin throws.',
+      schema: jsonLiteral('skipCallback', 'skipItem', 'abort'),
+      defaultValue: 'skipCallback',
+    },
+    changeReport: {
+      help: 'Write a report of the search and navigation items each plugin callback added, removed or changed to the output directory.',
+      schema: jsonLiteral('off', 'json', 'markdown'),
+      defaultValue: 'off',
+    },
+  })
+
+  const postRenderJob = async (event: RendererEvent) => {
+    const { transaction, commit, logTimings } = createAssetTransaction(
+      app,
+      event,
+      getOptions()
+    )
+
+    const runs = (job: PostRenderJob) =>
+      !job.pages || !(event as { [withoutPages]?: boolean })[withoutPages]
+
+    await Promise.all(
+      postRenderJobs.assets
+        .filter(runs)
+        .map((job) => transaction.time(job.name, () => job.run(transaction)))
+    )
+
+    await transaction.time('write', commit)
+
+    for (const check of postRenderJobs.checks.filter(runs)) {
+      await transaction.time(check.name, () => check.run(transaction))
+    }
+
+    logTimings()
+  }
+
+  app.renderer.postRenderAsyncJobs.push(postRenderJob)
+
+  // the renderer clears its jobs after each render, e.g. in watch mode
+  app.renderer.on(RendererEvent.END, () => {
+    app.renderer.postRenderAsyncJobs.push(postRenderJob)
+  })
+
+  return postRenderJobs
+}
+
+const reflectionsByUrlStore = new WeakMap<
+  RendererEvent,
+  Map<string, Reflection>
+>()
+
+function getReflectionsByUrl(event: RendererEvent) {
+  if (reflectionsByUrlStore.has(event)) {
+    return reflectionsByUrlStore.get(event)!
+  }
+
+  const reflectionsByUrl = new Map<string, Reflection>()
+
+  for (const reflection of Object.values(event.project.reflections)) {
+    if (
+      !reflection.url ||
+      !reflection.name ||
+      reflection.flags.isExternal ||
+      reflectionsByUrl.has(reflection.url)
+    ) {
+      continue
+    }
+
+    reflectionsByUrl.set(reflection.url, reflection)
+  }
+
+  reflectionsByUrlStore.set(event, reflectionsByUrl)
+
+  return reflectionsByUrl
+}
+
+/**
+ * Looks up the rendered reflection for a URL relative to the output directory,
+ * including the `#anchor` if there is one. The lookup table is built once per
+ * {@link RendererEvent} and shared by every caller.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import {
+ *   formatNavigation,
+ *   getReflectionByUrl,
+ * } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   formatNavigation(app, (item, { event }) => {
+ *     const parent = getReflectionByUrl(app, event, 'modules/foo.html')
+ *   })
+ * }
+ * ```
+ */
+export function getReflectionByUrl(
+  app: Application,
+  event: RendererEvent,
+  url: string
+) {
+  return getReflectionsByUrl(event).get(url)
+}
+
+function getSearchReflection(event: RendererEvent, url: string) {
+  const reflection = url ? getReflectionsByUrl(event).get(url) : undefined
+
+  if (
+    reflection instanceof DeclarationReflection ||
+    reflection instanceof DocumentReflection
+  ) {
+    return reflection
+  }
+
+  return undefined
+}
+
+/** @deprecated */
+export type Search = {
+  rows: SearchItem[]
+} & Readonly<{
+  index: Readonly<object>
+}>
+
+export type SearchItem = {
+  url: string
+  kind?: ReflectionKind
+  name?: string
+  classes?: string
+  parent?: string
+  comment?: string
+  document?: string
+  boost?: number
+  /**
+   * Values to filter rows by, e.g. `{ category: ['HTTP'] }`. Each facet is
+   * also a field of the separate `facetIndex`, so `category:http` finds the
+   * row there without facet values matching ordinary searches.
+   */
+  facets?: Record<string, string[]>
+}
+
+const reflectionKindSchema = typeSchema<ReflectionKind>(
+  'a ReflectionKind',
+  (value) =>
+    typeof value === 'number' && typeof ReflectionKind[value] === 'string'
+)
+
+const reflectionKindNameSchema = typeSchema<string>(
+  'a ReflectionKind name',
+  (value) =>
+    typeof value === 'string' &&
+    typeof ReflectionKind[value as keyof typeof ReflectionKind] === 'number'
+)
+
+export const searchItemSchema: JSONSchema<SearchItem> = jsonObject({
+  url: jsonString(),
+  kind: jsonOptional(reflectionKindSchema),
+  name: jsonOptional(jsonString()),
+  classes: jsonOptional(jsonString()),
+  parent: jsonOptional(jsonString()),
+  comment: jsonOptional(jsonString()),
+  document: jsonOptional(jsonString()),
+  boost: jsonOptional(jsonNumber()),
+  facets: jsonOptional(jsonRecord(jsonArray(jsonString()))),
+})
+
+const searchSchema = jsonObject({
+  rows: jsonArray(searchItemSchema),
+  index: jsonRecord(jsonAny()),
+})
+
+export type AlterSearchCallback = (
+  items: SearchItem[],
+  context: { app: Application; event: RendererEvent }
+) => void | Promise<void>
+
+export type FormatSearchCallback = (
+  item: SearchItem & Readonly<{ url: string }>,
+  context: {
+    app: Application
+    event: RendererEvent
+    reflection?: DeclarationReflection | DocumentReflection
+    /** Flags of the reflection, whether or not they were added as classes. */
+    flags: ReadonlySet<SearchFlag>
+    /**
+     * Removes the item from the search rows and index, callbacks after this one
+     * are skipped.
+     */
+    remove(): void
+  }
+) => void | Promise<void>
+
+export type SearchFlag =
+  | 'deprecated'
+  | 'experimental'
+  | 'beta'
+  | 'alpha'
+  | 'private'
+  | 'protected'
+
+function getSearchFlags(reflection: Reflection) {
+  const flags = new Set<SearchFlag>()
+
+  if (reflection.isDeprecated()) {
+    flags.add('deprecated')
+  }
+
+  for (const flag of ['experimental', 'beta', 'alpha'] as const) {
+    if (hasCommentTag(reflection, `@${flag}`)) {
+      flags.add(flag)
+    }
+  }
+
+  if (reflection.flags.isPrivate) {
+    flags.add('private')
+  }
+
+  if (reflection.flags.isProtected) {
+    flags.add('protected')
+  }
+
+  return flags
+}
+
+export type SearchOptions = {
+  /** Only keep the first row for each URL, defaults to `true`. */
+  dedupe?: boolean
+  /**
+   * Warn about and remove rows whose URL, without the anchor, is not a file in
+   * the output directory. Defaults to `false`.
+   */
+  checkUrls?: boolean
+  /** How the comment and document text of each row is extracted. */
+  text?: SearchTextOptions
+  /**
+   * Flags added to the classes of each row, the same way navigation items get
+   * a `deprecated` class. Defaults to all flags.
+   */
+  flagClasses?: SearchFlag[]
+  /** Facets added to each row, defaults to none. */
+  facets?: SearchFacet[]
+}
+
+export type SearchFacet =
+  /** Full name of the module the reflection is in. */
+  | 'module'
+  /** Name of the package the reflection is in, see {@link getPackages}. */
+  | 'package'
+  /** Titles of the categories the reflection is in. */
+  | 'category'
+  /** Titles of the groups the reflection is in. */
+  | 'group'
+  /** Modifier tags of the reflection and its signatures, without the `@`. */
+  | 'tag'
+
+function getSearchFacets(
+  reflection: Reflection,
+  facets: SearchFacet[],
+  getPackage: (reflection: Reflection) => string | undefined
+) {
+  const values: Record<string, string[]> = {}
+
+  const add = (facet: SearchFacet, value: string | undefined) => {
+    if (value !== undefined && facets.includes(facet)) {
+      values[facet] = [...new Set([...(values[facet] ?? []), value])]
+    }
+  }
+
+  let module = reflection.parent
+
+  while (module && !module.kindOf(ReflectionKind.Module)) {
+    module = module.parent
+  }
+
+  add('module', module?.getFullName())
+  add('package', getPackage(reflection))
+
+  const parent = reflection.parent
+
+  // TypeDoc removes the @category and @group tags once it has sorted children
+  if (
+    parent instanceof DeclarationReflection ||
+    parent instanceof ProjectReflection
+  ) {
+    for (const group of parent.groups ?? []) {
+      if (group.children.includes(reflection as DeclarationReflection)) {
+        add('group', group.title)
+      }
+
+      for (const category of group.categories ?? []) {
+        if (category.children.includes(reflection as DeclarationReflection)) {
+          add('category', category.title)
+        }
+      }
+    }
+
+    for (const category of parent.categories ?? []) {
+      if (category.children.includes(reflection as DeclarationReflection)) {
+        add('category', category.title)
+      }
+    }
+  }
+
+  const reflections: (Reflection | undefined)[] = [reflection]
+
+  if (reflection.isDeclaration()) {
+    reflections.push(
+      ...(reflection.signatures ?? []),
+      reflection.getSignature,
+      reflection.setSignature
+    )
+  }
+
+  for (const tag of reflections.flatMap((reflection) => [
+    ...(reflection?.comment?.modifierTags ?? []),
+  ])) {
+    add('tag', tag.slice(1))
+  }
+
+  return Object.keys(values).length ? values : undefined
+}
+
+export type SearchTextOptions = {
+  /** Only include these block tags, e.g. `['@remarks']`. Defaults to all. */
+  includeTags?: `@${string}`[]
+  /** Leave out these block tags, e.g. `['@example']`. */
+  excludeTags?: `@${string}`[]
+  /** Remove markdown syntax, keeping its text. Defaults to `true`. */
+  stripMarkdown?: boolean
+  /**
+   * Remove fenced code blocks instead of only their fences. Defaults to
+   * `false`.
+   */
+  stripCode?: boolean
+}
+
+function renderSearchParts(parts: readonly CommentDisplayPart[]) {
+  return parts
+    .map((part) => {
+      switch (part.kind) {
+        case 'inline-tag':
+          // TypeDoc does not render these either
+          return /^@(label|inheritdoc)$/i.test(part.tag) ? '' : part.text
+        case 'relative-link':
+          // only the target of a markdown link or image
+          return ''
+        default:
+          return part.text
+      }
+    })
+    .join('')
+}
+
+function stripSearchMarkdown(text: string, stripCode: boolean) {
+  const lines: string[] = []
+
+  let fence: string | undefined
+
+  for (const line of text.split('\n')) {
+    const marker = /^\s*(`{3,}|~{3,})/.exec(line)?.[1]
+
+    if (fence) {
+      if (marker?.[0] === fence[0] && marker.length >= fence.length) {
+        fence = undefined
+      } else if (!stripCode) {
+        lines.push(line)
+      }
+
+      continue
+    }
+
+    if (marker) {
+      fence = marker
+
+      continue
+    }
+
+    if (/^\s*([-*_]\s*){3,}$|^\s*\|?(\s*:?-+:?\s*\|)+/.test(line)) {
+      continue
+    }
+
+    lines.push(
+      line
+        .replace(/^\s*(#{1,6}\s+|>\s?|[-*+]\s+|\d+[.)]\s+)/, '')
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/`([^`]*)`/g, '$1')
+        .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+        .replace(/(^|[^\w*])[*_]([^*_\s][^*_]*?)[*_](?=[^\w*]|$)/g, '$1$2')
+        .replace(/<\/?[a-z][^>]*>/gi, '')
+    )
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n')
+}
+
+/**
+ * Returns the text of `reflection` as indexed by search, or `undefined` if it
+ * has none. For documents this is their content, for other reflections the
+ * comments of the reflection, its signatures, accessors, parameters and type
+ * parameters. Inline tags are rendered to their display text.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import { formatSearch, getSearchText } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   formatSearch(app, (item, { reflection }) => {
+ *     if (reflection?.isDeclaration()) {
+ *       item.comment = getSearchText(reflection, { includeTags: ['@remarks'] })
+ *     }
+ *   })
+ * }
+ * ```
+ */
+export function getSearchText(
+  reflection: Reflection,
+  options?: SearchTextOptions
+) {
+  const sections: string[] = []
+
+  if (reflection.isDocument()) {
+    sections.push(renderSearchParts(reflection.content))
+  } else {
+    const comments = new Set<Comment>()
+
+    const addComments = (reflection: Reflection | undefined) => {
+      if (reflection?.comment) {
+        comments.add(reflection.comment)
+      }
+
+      if (
+        reflection instanceof DeclarationReflection ||
+        reflection instanceof SignatureReflection
+      ) {
+        for (const typeParameter of reflection.typeParameters ?? []) {
+          addComments(typeParameter)
+        }
+      }
+
+      if (reflection instanceof SignatureReflection) {
+        for (const parameter of reflection.parameters ?? []) {
+          addComments(parameter)
+        }
+      }
+    }
+
+    addComments(reflection)
+
+    if (reflection.isDeclaration()) {
+      for (const signature of [
+        ...(reflection.signatures ?? []),
+        ...(reflection.indexSignatures ?? []),
+        reflection.getSignature,
+        reflection.setSignature,
+      ]) {
+        addComments(signature)
+      }
+    }
+
+    for (const comment of comments) {
+      sections.push(renderSearchParts(comment.summary))
+
+      for (const blockTag of comment.blockTags) {
+        if (
+          (!options?.includeTags ||
+            options.includeTags.includes(blockTag.tag)) &&
+          !options?.excludeTags?.includes(blockTag.tag)
+        ) {
+          sections.push(renderSearchParts(blockTag.content))
+        }
+      }
+    }
+  }
+
+  let text = sections.join('\n\n')
+
+  if (options?.stripMarkdown ?? true) {
+    text = stripSearchMarkdown(text, !!options?.stripCode)
+  }
+
+  return text.trim() || undefined
+}
+
+/**
+ * Multiplies the boost of every search row matching all of its conditions by
+ * `factor`. Rows matching multiple rules get all of their factors.
+ */
+export type SearchBoostRule = {
+  /** Shown in the change report, defaults to the rule's conditions. */
+  name?: string
+  /**
+   * {@link ReflectionKind} member names, e.g. `"Class"` or `"ClassOrInterface"`.
+   */
+  kind?: string | string[]
+  /** Block or modifier tags of the reflection or its signatures, e.g. `"@beta"`. */
+  tag?: string | string[]
+  /** Prefixes of the row's URL, e.g. `"classes/"`. */
+  path?: string | string[]
+  /** Names of the packages the reflection belongs to, see {@link getPackages}. */
+  package?: string | string[]
+  /** Only match documents if `true`, or only declarations if `false`. */
+  document?: boolean
+  factor: number
+}
+
+const jsonStrings = jsonUnion(jsonString(), jsonArray(jsonString()))
+
+export const searchBoostRuleSchema: JSONSchema<SearchBoostRule> = jsonObject({
+  name: jsonOptional(jsonString()),
+  kind: jsonOptional(
+    jsonUnion(reflectionKindNameSchema, jsonArray(reflectionKindNameSchema))
+  ),
+  tag: jsonOptional(jsonStrings),
+  path: jsonOptional(jsonStrings),
+  package: jsonOptional(jsonStrings),
+  document: jsonOptional(jsonBoolean()),
+  factor: jsonNumber(),
+})
+
+function describeSearchBoostRule(rule: SearchBoostRule) {
+  if (rule.name) {
+    return rule.name
+  }
+
+  const conditions = (['kind', 'tag', 'path', 'package'] as const)
+    .filter((condition) => rule[condition] !== undefined)
+    .map((condition) => `${condition} ${[rule[condition]].flat().join('|')}`)
+
+  if (rule.document !== undefined) {
+    conditions.push(rule.document ? 'document' : 'declaration')
+  }
+
+  return conditions.join(', ') || 'all'
+}
+
+function hasCommentTag(reflection: Reflection, tag: string) {
+  const reflections: (Reflection | undefined)[] = [reflection]
+
+  if (reflection.isDeclaration()) {
+    reflections.push(
+      ...(reflection.signatures ?? []),
+      reflection.getSignature,
+      reflection.setSignature
+    )
+  }
+
+  return reflections.some(
+    (reflection) =>
+      reflection?.comment?.modifierTags.has(tag as `@${string}`) ||
+      reflection?.comment?.blockTags.some((blockTag) => blockTag.tag === tag)
+  )
+}
+
+function getReflectionPackage(packages: PackageInfo[], reflection: Reflection) {
+  let info: PackageInfo | undefined
+
+  for (
+    let current: Reflection | undefined = reflection;
+    current && !info;
+    current = current.parent
+  ) {
+    info = packages.find(
+      (info) =>
+        info.reflection === current &&
+        info.reflection instanceof DeclarationReflection
+    )
+  }
+
+  if (!info && reflection.isDeclaration()) {
+    const file = reflection.sources?.[0]?.fullFileName
+
+    // the deepest package directory containing the source file
+    info = file
+      ? packages
+          .filter((info) => file.startsWith(info.dir.replace(/\\/g, '/') + '/'))
+          .sort((a, b) => b.dir.length - a.dir.length)[0]
+      : undefined
+  }
+
+  return info?.packageJson.name
+}
+
+/**
+ * Returns the factors of the rules matching `item`, `getPackage` is only
+ * called if a rule matches on package.
+ */
+function matchSearchBoostRules(
+  rules: SearchBoostRule[],
+  item: SearchItem,
+  reflection: Reflection | undefined,
+  getPackage: (reflection: Reflection) => string | undefined
+) {
+  const factors: { rule: string; factor: number }[] = []
+
+  for (const rule of rules) {
+    const any = (
+      values: string | string[],
+      match: (value: string) => boolean
+    ) => [values].flat().some(match)
+
+    if (
+      (rule.kind === undefined ||
+        (item.kind !== undefined &&
+          any(rule.kind, (name) => {
+            const kind = ReflectionKind[name as keyof typeof ReflectionKind]
+
+            return typeof kind === 'number' && (item.kind! & kind) !== 0
+          }))) &&
+      (rule.tag === undefined ||
+        (!!reflection &&
+          any(rule.tag, (tag) => hasCommentTag(reflection, tag)))) &&
+      (rule.path === undefined ||
+        any(rule.path, (prefix) => item.url.startsWith(prefix))) &&
+      (rule.package === undefined ||
+        (!!reflection &&
+          any(rule.package, (name) => getPackage(reflection) === name))) &&
+      (rule.document === undefined ||
+        rule.document === (item.kind === ReflectionKind.Document))
+    ) {
+      factors.push({ rule: describeSearchBoostRule(rule), factor: rule.factor })
+    }
+  }
+
+  return factors
+}
+
+/** @deprecated Use {@link alterSearch} and {@link formatSearch} instead. */
+export async function readSearch(app: Application) {
+  const file = resolve(app.options.getValue('out'), 'assets', 'search.js')
+
+  return assertJSON(
+    searchSchema,
+    await readGzipJson(file, 'window.searchData'),
+    file
+  ) as Search
+}
+
+/** @deprecated Use {@link alterSearch} and {@link formatSearch} instead. */
+export function rebuildSearch(
+  search: Search,
+  app: Application,
+  event: RendererEvent,
+  options?: {
+    formatName?: (
+      name: string | undefined,
+      reflection: DeclarationReflection | DocumentReflection | undefined
+    ) => string | undefined
+    formatComment?: (
+      comment: string | undefined,
+      reflection: DeclarationReflection | DocumentReflection | undefined
+    ) => string | undefined
+    formatDocument?: (
+      document: string | undefined,
+      reflection: DeclarationReflection | DocumentReflection | undefined
+    ) => string | undefined
+  }
+) {
+  const searchInComments = !!app.options.getValue('searchInComments')
+  const searchInDocuments = !!app.options.getValue('searchInDocuments')
+
+  const theme = app.renderer.theme! as DefaultTheme
+
+  const reflections = Object.values(event.project.reflections).filter(
+    (reflection) =>
+      (reflection instanceof DeclarationReflection ||
+        reflection instanceof DocumentReflection) &&
+      reflection.url &&
+      reflection.name &&
+      !reflection.flags.isExternal
+  ) as (DeclarationReflection | DocumentReflection)[]
+
+  const indexEvent = new IndexEvent(reflections)
+
+  app.renderer.trigger(IndexEvent.PREPARE_INDEX, indexEvent)
+
+  const searchFieldIndexes = new Map(
+    reflections.map((reflection, index) => [reflection, index])
+  )
+
+  const builder = new Builder()
+  builder.pipeline.add(trimmer)
+
+  builder.ref('id')
+
+  for (const [key, boost] of Object.entries(indexEvent.searchFieldWeights)) {
+    builder.field(key, { boost })
+  }
+
+  for (const [id, row] of search.rows.entries()) {
+    if (!row.url) {
+      continue
+    }
+
+    const reflection = getSearchReflection(event, row.url)
+
+    if (reflection) {
+      if (row.kind === undefined) {
+        row.kind = reflection.kind
+      }
+
+      if (row.name === undefined) {
+        row.name = reflection.name
+      }
+
+      if (row.classes === undefined) {
+        row.classes = theme.getReflectionClasses(reflection)
+      }
+
+      if (row.parent === undefined) {
+        let parent = reflection.parent
+
+        if (parent instanceof ProjectReflection) {
+          parent = undefined
+        }
+
+        if (parent) {
+          row.parent = parent.getFullName()
+        }
+      }
+
+      if (
+        row.comment === undefined &&
+        searchInComments &&
+        !reflection.isDocument()
+      ) {
+        row.comment = getSearchText(reflection)
+      }
+
+      if (
+        row.document === undefined &&
+        searchInDocuments &&
+        reflection.isDocument()
+      ) {
+        row.document = getSearchText(reflection)
+      }
+
+      if (row.boost === undefined) {
+        row.boost = reflection.relevanceBoost ?? 1
+
+        if (row.boost <= 0) {
+          row.boost = 1
+        }
+      }
+    }
+
+    if (options?.formatName) {
+      row.name = options.formatName(row.name, reflection)
+    }
+
+    if (options?.formatComment) {
+      row.comment = options.formatComment(row.comment, reflection)
+    }
+
+    if (options?.formatDocument) {
+      row.document = options.formatDocument(row.document, reflection)
+    }
+
+    builder.add(
+      {
+        name: row.name,
+        comment: row.comment,
+        document: row.document,
+        ...(reflection
+          ? indexEvent.searchFields[searchFieldIndexes.get(reflection)!]
+          : {}),
+        id,
+      },
+      {
+        boost: row.boost,
+      }
+    )
+
+    delete row.comment
+    delete row.document
+    delete row.boost
+  }
+
+  // ignore read-only internally
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ;(search as any).index = builder.build().toJSON()
+
+  return search
+}
+
+/** @deprecated Use {@link alterSearch} and {@link formatSearch} instead. */
+export async function writeSearch(app: Application, search: Search) {
+  await writeGzipJson(
+    resolve(app.options.getValue('out'), 'assets', 'search.js'),
+    search as unknown as JSONValue,
+    'window.searchData'
+  )
+}
+
+type SearchTasks = {
+  alter: Task<AlterSearchCallback>[]
+  format: Task<FormatSearchCallback>[]
+  options: Required<SearchOptions>
+  boosts: SearchBoostRule[]
+  exports: {
+    format: SearchExportFormat
+    options: SearchExportOptions & { file: string }
+  }[]
+}
+
+const searchTasksStore = new WeakMap<Application, SearchTasks>()
+
+function getSearchTasks(app: Application) {
+  if (searchTasksStore.has(app)) {
+    return searchTasksStore.get(app)!
+  }
+
+  const searchTasks: SearchTasks = {
+    alter: [],
+    format: [],
+    options: {
+      dedupe: true,
+      checkUrls: false,
+      text: {},
+      flagClasses: [
+        'deprecated',
+        'experimental',
+        'beta',
+        'alpha',
+        'private',
+        'protected',
+      ],
+      facets: [],
+    },
+    boosts: [],
+    exports: [],
+  }
+
+  searchTasksStore.set(app, searchTasks)
+
+  const getOptions = declarePluginOptions(app, 'libUtils', {
+    searchBoosts: {
+      help: 'Rules multiplying the search boost of matching rows, by kind, tag, URL prefix, package or document.',
+      schema: jsonArray(searchBoostRuleSchema),
+      defaultValue: [],
+    },
+  })
+
+  getPostRenderJobs(app).assets.push({
+    name: 'search',
+    run: async (transaction) => {
+      const { event } = transaction
+
+      const file = resolve(event.outputDirectory, 'assets', 'search.js')
+
+      const search: {
+        rows: SearchItem[]
+        index: object
+        facetIndex?: object
+      } = assertJSON(
+        searchSchema,
+        await transaction.read(file, 'window.searchData'),
+        file
+      )
+
+      const alterTasks = sortTasks(app, 'alterSearch', searchTasks.alter)
+      const formatTasks = sortTasks(app, 'formatSearch', searchTasks.format)
+
+      logTaskOrder(app, 'alterSearch', alterTasks)
+      logTaskOrder(app, 'formatSearch', formatTasks)
+
+      const snapshotRows = (rows: SearchItem[], key?: string) =>
+        createChangeSnapshot(
+          rows,
+          (row) => key ?? row.url ?? `row "${row.name}"`,
+          (row) => ({ ...row })
+        )
+
+      const boosts = [...searchTasks.boosts, ...getOptions().searchBoosts]
+
+      const packages = new Map<Reflection, string | undefined>()
+
+      let packageInfos: PackageInfo[] | undefined
+
+      const getPackage = (reflection: Reflection) => {
+        if (!packages.has(reflection)) {
+          packageInfos ??= getPackages(app, event.project)
+
+          packages.set(
+            reflection,
+            getReflectionPackage(packageInfos, reflection)
+          )
+        }
+
+        return packages.get(reflection)
+      }
+
+      for (const alter of alterTasks) {
+        const tracked = transaction.track('search', 'alterSearch', alter, () =>
+          snapshotRows(search.rows)
+        )
+
+        await transaction.run('alterSearch', alter, 'assets/search.js', () =>
+          alter.callback(search.rows, { app, event })
+        )
+
+        tracked()
+      }
+
+      const searchInComments = !!app.options.getValue('searchInComments')
+      const searchInDocuments = !!app.options.getValue('searchInDocuments')
+
+      const theme = app.renderer.theme! as DefaultTheme
+
+      const reflections = Object.values(event.project.reflections).filter(
+        (reflection) =>
+          (reflection instanceof DeclarationReflection ||
+            reflection instanceof DocumentReflection) &&
+          reflection.url &&
+          reflection.name &&
+          !reflection.flags.isExternal
+      ) as (DeclarationReflection | DocumentReflection)[]
+
+      const indexEvent = new IndexEvent(reflections)
+
+      app.renderer.trigger(IndexEvent.PREPARE_INDEX, indexEvent)
+
+      const searchFieldIndexes = new Map(
+        reflections.map((reflection, index) => [reflection, index])
+      )
+
+      const builder = new Builder()
+      builder.pipeline.add(trimmer)
+
+      builder.ref('id')
+
+      for (const [key, boost] of Object.entries(
+        indexEvent.searchFieldWeights
+      )) {
+        builder.field(key, { boost })
+      }
+
+      const rows: SearchItem[] = []
+      const documents: [object, { boost: number }][] = []
+      const exportRows: SearchExportRow[] = []
+      const urls = new Set<string>()
+
+      for (const item of search.rows) {
+        if (searchTasks.options.dedupe && item.url) {
+          if (urls.has(item.url)) {
+            app.logger.verbose(`Removed duplicate search item ${item.url}`)
+
+            continue
+          }
+
+          urls.add(item.url)
+        }
+
+        if (
+          searchTasks.options.checkUrls &&
+          item.url &&
+          !isExternalUrl(item.url) &&
+          !existsSync(
+            resolve(event.outputDirectory, item.url.replace(/[?#].*$/, ''))
+          )
+        ) {
+          app.logger.warn(
+            `Removed search item ${JSON.stringify(item.name ?? item.url)}, ${item.url} does not exist`
+          )
+
+          continue
+        }
+
+        const reflection = getSearchReflection(event, item.url)
+
+        // text filled in below, to tell if a format callback replaced it
+        let filledText: string | undefined
+        let markdown: string | undefined
+        // text that is exported but not searched
+        let exportText: Pick<SearchItem, 'comment' | 'document'> = {}
+
+        const flags = reflection
+          ? getSearchFlags(reflection)
+          : new Set<SearchFlag>()
+
+        if (reflection) {
+          if (item.kind === undefined) {
+            item.kind = reflection.kind
+          }
+
+          if (item.name === undefined) {
+            item.name = reflection.name
+          }
+
+          if (item.classes === undefined) {
+            item.classes = theme.getReflectionClasses(reflection)
+          }
+
+          const flagClasses = searchTasks.options.flagClasses.filter((flag) =>
+            flags.has(flag)
+          )
+
+          if (flagClasses.length) {
+            item.classes = [
+              ...new Set([...flagClasses, ...item.classes.split(' ')]),
+            ]
+              .filter(Boolean)
+              .join(' ')
+          }
+
+          if (item.parent === undefined) {
+            let parent = reflection.parent
+
+            if (parent instanceof ProjectReflection) {
+              parent = undefined
+            }
+
+            if (parent) {
+              item.parent = parent.getFullName()
+            }
+          }
+
+          if (item.facets === undefined && searchTasks.options.facets.length) {
+            item.facets = getSearchFacets(
+              reflection,
+              searchTasks.options.facets,
+              getPackage
+            )
+          }
+
+          const textKey = reflection.isDocument() ? 'document' : 'comment'
+          const searched = reflection.isDocument()
+            ? searchInDocuments
+            : searchInComments
+
+          if (
+            item[textKey] === undefined &&
+            (searched || searchTasks.exports.length)
+          ) {
+            filledText = getSearchText(reflection, searchTasks.options.text)
+
+            if (searched) {
+              item[textKey] = filledText
+            } else {
+              exportText = { [textKey]: filledText }
+            }
+          }
+
+          if (filledText !== undefined && searchTasks.exports.length) {
+            markdown = getSearchText(reflection, {
+              ...searchTasks.options.text,
+              stripMarkdown: false,
+            })
+          }
+
+          if (item.boost === undefined) {
+            item.boost = reflection.relevanceBoost ?? 1
+          }
+        }
+
+        const key = item.url
+
+        const factors = matchSearchBoostRules(
+          boosts,
+          item,
+          reflection,
+          getPackage
+        )
+
+        if (factors.length) {
+          const applied: { factors?: string[] } = {}
+
+          const tracked = transaction.track(
+            'search',
+            'searchBoosts',
+            { name: 'rules' },
+            () =>
+              createChangeSnapshot(
+                [item],
+                () => key,
+                ({ boost }) => ({ boost, factors: applied.factors })
+              )
+          )
+
+          item.boost = factors.reduce(
+            (boost, { factor }) => boost * factor,
+            item.boost ?? 1
+          )
+
+          applied.factors = factors.map(
+            ({ rule, factor }) => `${rule} ×${factor}`
+          )
+
+          tracked()
+        }
+
+        let removed = false
+
+        for (const format of formatTasks) {
+          const tracked = transaction.track(
+            'search',
+            'formatSearch',
+            format,
+            () => snapshotRows(removed ? [] : [item], key)
+          )
+
+          const keep = await transaction.run(
+            'formatSearch',
+            format,
+            item.url ?? 'a search row without url',
+            () =>
+              format.callback(item, {
+                app,
+                event,
+                reflection,
+                flags,
+                remove() {
+                  removed = true
+                },
+              })
+          )
+
+          if (!keep) {
+            removed = true
+          }
+
+          tracked()
+
+          if (removed) {
+            break
+          }
+        }
+
+        // rows that can not be found in the index would be dead entries
+        if (
+          removed ||
+          !item.url ||
+          (item.boost !== undefined && item.boost <= 0)
+        ) {
+          continue
+        }
+
+        if (item.facets && !Object.keys(item.facets).length) {
+          delete item.facets
+        }
+
+        documents.push([
+          {
+            name: item.name,
+            comment: item.comment,
+            document: item.document,
+            ...(reflection
+              ? indexEvent.searchFields[searchFieldIndexes.get(reflection)!]
+              : {}),
+            id: rows.length,
+          },
+          {
+            boost: item.boost ?? 1,
+          },
+        ])
+
+        item.name = item.name ?? ''
+
+        if (searchTasks.exports.length) {
+          const exportRow: SearchExportRow = {
+            ...exportText,
+            ...item,
+            name: item.name,
+            boost: item.boost ?? 1,
+          }
+
+          if (
+            filledText !== undefined &&
+            (exportRow.document ?? exportRow.comment) === filledText
+          ) {
+            exportRow.markdown = markdown
+          }
+
+          exportRows.push(exportRow)
+        }
+
+        delete item.comment
+        delete item.document
+        delete item.boost
+
+        rows.push(item)
+      }
+
+      search.rows = rows
+
+      for (const [document, attributes] of documents) {
+        builder.add(document, attributes)
+      }
+
+      search.index = builder.build().toJSON()
+
+      // facets are only known once every format callback has run, they get an
+      // index of their own so that ordinary searches do not match them
+      const facets = new Set(
+        rows.flatMap((row) => Object.keys(row.facets ?? {}))
+      )
+
+      if (facets.delete('id')) {
+        app.logger.warn(
+          'Search facet id is not indexed, it has the same name as the reference field'
+        )
+      }
+
+      if (facets.size) {
+        const facetBuilder = new Builder()
+        facetBuilder.pipeline.add(trimmer)
+
+        facetBuilder.ref('id')
+
+        for (const facet of facets) {
+          facetBuilder.field(facet)
+        }
+
+        for (const [id, row] of rows.entries()) {
+          if (row.facets) {
+            facetBuilder.add({
+              ...Object.fromEntries(
+                Object.entries(row.facets).map(([facet, values]) => [
+                  facet,
+                  values.join(' '),
+                ])
+              ),
+              id,
+            })
+          }
+        }
+
+        search.facetIndex = facetBuilder.build().toJSON()
+      }
+
+      transaction.write(file, 'window.searchData', search as JSONValue)
+
+      for (const { format, options } of searchTasks.exports) {
+        const getUrl = createExportUrl(app, options.baseUrl)
+
+        const exportedRows = exportRows.map((row) => ({
+          ...row,
+          url: getUrl(row.url),
+        }))
+
+        transaction.write(
+          resolve(event.outputDirectory, options.file),
+          undefined,
+          format === 'records'
+            ? createSearchRecords(exportedRows)
+            : format === 'chunks'
+              ? createSearchChunks(exportedRows, searchTasks.options.text)
+              : format(exportedRows, { app, event }),
+          { mode: 'plain' }
+        )
+      }
+    },
+  })
+
+  return searchTasks
+}
+
+/**
+ * @example
+ *
+ * ```ts
+ * import { Application, ReflectionKind } from 'typedoc'
+ * import { alterSearch } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   alterSearch(app, (items) => {
+ *     items.unshift({
+ *       url: 'foo.html#bar',
+ *       name: 'Foo',
+ *       kind: ReflectionKind.Document,
+ *       comment: undefined,
+ *       document: 'Lorem ipsum dolor sit amet...'
+ *     })
+ *   })
+ * }
+ * ```
+ */
+export function alterSearch(
+  app: Application,
+  callback: AlterSearchCallback,
+  options?: TaskOptions
+) {
+  const tasks = getSearchTasks(app).alter
+
+  tasks.push(createTask(tasks, callback, options))
+}
+
+/**
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import { formatSearch } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   formatSearch(
+ *     app,
+ *     (item) => {
+ *       if (!item.document) {
+ *         return
+ *       }
+ *
+ *       item.document = item.document.replace(/foo/g, 'bar')
+ *     },
+ *     { name: 'foo-to-bar', after: 'other-plugin' }
+ *   )
+ * }
+ * ```
+ */
+export function formatSearch(
+  app: Application,
+  callback: FormatSearchCallback,
+  options?: TaskOptions
+) {
+  const tasks = getSearchTasks(app).format
+
+  tasks.push(createTask(tasks, callback, options))
+}
+
+/**
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import { configureSearch } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   configureSearch(app, { checkUrls: true })
+ * }
+ * ```
+ */
+export function configureSearch(app: Application, options: SearchOptions) {
+  const current = getSearchTasks(app).options
+
+  // options set to `undefined` keep their current value
+  for (const key of Object.keys(options) as (keyof SearchOptions)[]) {
+    if (options[key] !== undefined) {
+      Object.assign(current, { [key]: options[key] })
+    }
+  }
+}
+
+/**
+ * Adds rules for boosting search rows. Rules from the `libUtilsSearchBoosts`
+ * option
+ * apply as well.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import { addSearchBoosts } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   addSearchBoosts(app, [
+ *     { tag: '@deprecated', factor: 0.2 },
+ *     { tag: ['@alpha', '@beta'], factor: 0.5 },
+ *     { kind: 'ClassOrInterface', package: '@example/core', factor: 2 },
+ *   ])
+ * }
+ * ```
+ */
+export function addSearchBoosts(app: Application, rules: SearchBoostRule[]) {
+  for (const rule of rules) {
+    assertJSON(searchBoostRuleSchema, rule, 'search boost rule')
+  }
+
+  getSearchTasks(app).boosts.push(...rules)
+}
+
+/** A search row as written to the index, before its text is removed. */
+export type SearchExportRow = SearchItem & {
+  name: string
+  boost: number
+  /**
+   * The comment or document text before markdown was stripped, unless a
+   * format callback replaced the text.
+   */
+  markdown?: string
+}
+
+export type SearchRecord = {
+  id: string
+  url: string
+  name: string
+  /** Name of the {@link ReflectionKind} member, e.g. `"TypeAlias"`. */
+  kind?: string
+  parent?: string
+  comment?: string
+  document?: string
+  boost: number
+  facets?: Record<string, string[]>
+}
+
+export type SearchChunk = {
+  id: string
+  /** URL of the row, pointing to the heading's anchor if there is one. */
+  url: string
+  name: string
+  kind?: string
+  parent?: string
+  /** Heading the content is below, `undefined` for content above the first heading. */
+  heading?: string
+  /** Parent, name and heading of the chunk, most general first. */
+  hierarchy: string[]
+  content: string
+  boost: number
+  facets?: Record<string, string[]>
+}
+
+export type SearchExportFormat =
+  /** One {@link SearchRecord} per search row. */
+  | 'records'
+  /** A {@link SearchChunk} for every heading in a row's document or comment. */
+  | 'chunks'
+  | ((
+      rows: SearchExportRow[],
+      context: { app: Application; event: RendererEvent }
+    ) => JSONValue)
+
+export type SearchExportOptions = {
+  /** Output file, relative to the output directory. Defaults to `search-<format>.json`. */
+  file?: string
+  /**
+   * Prefixed to every URL, e.g. `/api/` or `https://example.com/docs/`.
+   * Defaults to the `hostedBaseUrl` option, URLs are left relative if neither
+   * is set.
+   */
+  baseUrl?: string
+}
+
+function createSearchRecords(rows: SearchExportRow[]): SearchRecord[] {
+  return rows.map((row, index) => ({
+    id: String(index),
+    url: row.url,
+    name: row.name,
+    kind: row.kind === undefined ? undefined : ReflectionKind[row.kind],
+    parent: row.parent,
+    comment: row.comment,
+    document: row.document,
+    boost: row.boost,
+    facets: row.facets,
+  }))
+}
+
+function createSearchChunks(
+  rows: SearchExportRow[],
+  options: SearchTextOptions
+): SearchChunk[] {
+  const chunks: SearchChunk[] = []
+
+  for (const [index, row] of rows.entries()) {
+    const sections: { heading?: string; lines: string[] }[] = [{ lines: [] }]
+
+    // headings are split on before markdown is stripped from each section
+    const strip = (text: string) =>
+      row.markdown !== undefined && (options.stripMarkdown ?? true)
+        ? stripSearchMarkdown(text, !!options.stripCode)
+        : text
+
+    let fenced = false
+
+    for (const line of (
+      row.markdown ??
+      row.document ??
+      row.comment ??
+      ''
+    ).split('\n')) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        fenced = !fenced
+      }
+
+      const heading = fenced ? null : /^#{1,6}\s+(.+?)[\s#]*$/.exec(line)
+
+      if (heading) {
+        sections.push({ heading: strip(heading[1]), lines: [] })
+      } else {
+        sections[sections.length - 1].lines.push(line)
+      }
+    }
+
+    // headings are given the same anchors as TypeDoc gives them on the page
+    const slugger = new Slugger()
+
+    for (const [section, { heading, lines }] of sections.entries()) {
+      const content = strip(lines.join('\n')).trim()
+
+      if (section === 0 && !content && sections.length > 1) {
+        continue
+      }
+
+      chunks.push({
+        id: `${index}-${section}`,
+        url:
+          heading === undefined
+            ? row.url
+            : `${row.url.replace(/#.*$/, '')}#${slugger.slug(heading)}`,
+        name: row.name,
+        kind: row.kind === undefined ? undefined : ReflectionKind[row.kind],
+        parent: row.parent,
+        heading,
+        hierarchy: [
+          ...(row.parent ? row.parent.split('.') : []),
+          row.name,
+          ...(heading === undefined ? [] : [heading]),
+        ],
+        content,
+        boost: row.boost,
+        facets: row.facets,
+      })
+    }
+  }
+
+  return chunks
+}
+
+/**
+ * Writes the search rows, including the comment and document text and boost
+ * TypeDoc leaves out of `assets/search.js`, to a standalone JSON file for
+ * external search engines. Rows are exported after all search tasks have run.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import { exportSearch } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   // writes search-chunks.json for Algolia or Typesense style ingestion
+ *   exportSearch(app, 'chunks', { baseUrl: 'https://example.com/docs/' })
+ *
+ *   exportSearch(
+ *     app,
+ *     (rows) => rows.map((row) => ({ title: row.name, href: row.url })),
+ *     { file: 'search-pages.json' }
+ *   )
+ * }
+ * ```
+ */
+export function exportSearch(
+  app: Application,
+  format: SearchExportFormat,
+  options?: SearchExportOptions
+) {
+  if (typeof format === 'function' && !options?.file) {
+    throw new Error('exportSearch requires a file for custom formats')
+  }
+
+  getSearchTasks(app).exports.push({
+    format,
+    options: {
+      file: options?.file ?? `search-${format}.json`,
+      baseUrl: options?.baseUrl,
+    },
+  })
+}
+
+/**
+ * Returns the names of the registered search tasks in the order they will run.
+ * Problems with the order are only reported when the tasks run.
+ */
+export function getSearchTaskOrder(app: Application) {
+  const searchTasks = getSearchTasks(app)
+
+  return {
+    alter: sortTasks(app, 'alterSearch', searchTasks.alter, {
+      silent: true,
+    }).map((task) => task.name),
+    format: sortTasks(app, 'formatSearch', searchTasks.format, {
+      silent: true,
+    }).map((task) => task.name),
+  }
+}
+
+export type NavigationItem = {
+  text: string
+  /** Missing for folders. */
+  kind?: ReflectionKind
+  path?: string
+  class?: string
+  children?: NavigationItem[]
+}
+
+export const navigationItemSchema: JSONSchema<NavigationItem> = jsonObject({
+  text: jsonString(),
+  kind: jsonOptional(reflectionKindSchema),
+  path: jsonOptional(jsonString()),
+  class: jsonOptional(jsonString()),
+  children: jsonOptional(jsonArray(jsonLazy(() => navigationItemSchema))),
+})
+
+/**
+ * Wraps a {@link NavigationItem} tree and edits it in place. Parent links are
+ * cached and re-validated on use, so the tree stays safe to edit when other
+ * plugins modify the same items directly.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Application, ReflectionKind } from 'typedoc'
+ * import { alterNavigation } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   alterNavigation(app, (items, { tree }) => {
+ *     const internals = tree.findAll((item) => item.text.startsWith('_'))
+ *
+ *     if (internals.length) {
+ *       tree.wrap(internals, { text: 'Internals', kind: ReflectionKind.Namespace })
+ *     }
+ *
+ *     tree.sort((a, b) => a.text.localeCompare(b.text), { recursive: true })
+ *   })
+ * }
+ * ```
+ */
+export class NavigationTree {
+  readonly items: NavigationItem[]
+
+  private parents = new WeakMap<NavigationItem, NavigationItem | null>()
+
+  constructor(items: NavigationItem[]) {
+    this.items = items
+
+    this.reindex()
+  }
+
+  private reindex() {
+    this.parents = new WeakMap()
+
+    const index = (items: NavigationItem[], parent: NavigationItem | null) => {
+      for (const item of items) {
+        this.parents.set(item, parent)
+
+        if (item.children) {
+          index(item.children, item)
+        }
+      }
+    }
+
+    index(this.items, null)
+  }
+
+  private siblingsOf(parent: NavigationItem | null) {
+    return parent ? (parent.children ?? []) : this.items
+  }
+
+  private locate(item: NavigationItem) {
+    let parent = this.parents.get(item)
+
+    if (parent === undefined || !this.siblingsOf(parent).includes(item)) {
+      this.reindex()
+
+      parent = this.parents.get(item)
+    }
+
+    if (parent === undefined) {
+      throw new Error(
+        `Navigation item ${JSON.stringify(item.text)} is not part of the tree`
+      )
+    }
+
+    const siblings = this.siblingsOf(parent)
+
+    return { parent, siblings, index: siblings.indexOf(item) }
+  }
+
+  /** Returns `true` if the item is currently part of the tree. */
+  has(item: NavigationItem) {
+    try {
+      this.locate(item)
+
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Finds the first item in depth-first order with a matching `path`, matching
+   * `text` and `path`, or for which the predicate returns `true`.
+   */
+  find(
+    query:
+      | string
+      | { text?: string; path?: string }
+      | ((item: NavigationItem, parent?: NavigationItem) => boolean)
+  ) {
+    return this.findAll(query)[0] as NavigationItem | undefined
+  }
+
+  findAll(
+    query:
+      | string
+      | { text?: string; path?: string }
+      | ((item: NavigationItem, parent?: NavigationItem) => boolean)
+  ) {
+    const predicate =
+      typeof query === 'function'
+        ? query
+        : typeof query === 'string'
+          ? (item: NavigationItem) => item.path === query
+          : (item: NavigationItem) =>
+              (query.text === undefined || item.text === query.text) &&
+              (query.path === undefined || item.path === query.path)
+
+    return this.walk()
+      .filter(([item, parent]) => predicate(item, parent))
+      .map(([item]) => item)
+  }
+
+  getParent(item: NavigationItem) {
+    return this.locate(item).parent ?? undefined
+  }
+
+  /** Returns the ancestors of the item, closest first. */
+  getAncestors(item: NavigationItem) {
+    const ancestors: NavigationItem[] = []
+
+    for (
+      let parent = this.getParent(item);
+      parent;
+      parent = this.getParent(parent)
+    ) {
+      ancestors.push(parent)
+    }
+
+    return ancestors
+  }
+
+  private detach(item: NavigationItem) {
+    const { parent, siblings, index } = this.locate(item)
+
+    siblings.splice(index, 1)
+
+    // TypeDoc omits `children` when there are none
+    if (parent && !siblings.length) {
+      delete parent.children
+    }
+
+    this.parents.delete(item)
+  }
+
+  private attach(
+    items: NavigationItem[],
+    parent: NavigationItem | null,
+    getIndex: () => number,
+    target?: NavigationItem
+  ) {
+    // validate everything first so that a failed call leaves the tree as is
+    for (const item of items) {
+      if (parent === item || (parent && this.isAncestor(item, parent))) {
+        throw new Error(
+          `Can not move navigation item ${JSON.stringify(item.text)} into itself`
+        )
+      }
+
+      if (item === target) {
+        throw new Error(
+          `Can not move navigation item ${JSON.stringify(item.text)} next to itself`
+        )
+      }
+    }
+
+    for (const item of items) {
+      if (this.has(item)) {
+        this.detach(item)
+      }
+    }
+
+    if (parent && !parent.children) {
+      parent.children = []
+    }
+
+    const siblings = this.siblingsOf(parent)
+
+    siblings.splice(getIndex(), 0, ...items)
+
+    // the inserted items may bring their own subtrees
+    this.reindex()
+  }
+
+  private isAncestor(ancestor: NavigationItem, item: NavigationItem) {
+    return this.has(item) && this.getAncestors(item).includes(ancestor)
+  }
+
+  /** Inserts or moves items directly before `target`. */
+  insertBefore(target: NavigationItem, ...items: NavigationItem[]) {
+    const { parent } = this.locate(target)
+
+    this.attach(items, parent, () => this.locate(target).index, target)
+  }
+
+  /** Inserts or moves items directly after `target`. */
+  insertAfter(target: NavigationItem, ...items: NavigationItem[]) {
+    const { parent } = this.locate(target)
+
+    this.attach(items, parent, () => this.locate(target).index + 1, target)
+  }
+
+  /** Inserts or moves items to the end of `parent`, or of the root level. */
+  append(parent: NavigationItem | undefined, ...items: NavigationItem[]) {
+    if (parent) {
+      this.locate(parent)
+    }
+
+    this.attach(
+      items,
+      parent ?? null,
+      () => this.siblingsOf(parent ?? null).length
+    )
+  }
+
+  move(
+    item: NavigationItem,
+    to:
+      | { before: NavigationItem }
+      | { after: NavigationItem }
+      | { into: NavigationItem | undefined }
+  ) {
+    if ('before' in to) {
+      this.insertBefore(to.before, item)
+    } else if ('after' in to) {
+      this.insertAfter(to.after, item)
+    } else {
+      this.append(to.into, item)
+    }
+  }
+
+  remove(item: NavigationItem) {
+    this.detach(item)
+  }
+
+  /**
+   * Creates a group in place of the first of `items` and moves all of `items`
+   * into it.
+   */
+  wrap(items: NavigationItem[], group: Omit<NavigationItem, 'children'>) {
+    if (!items.length) {
+      throw new Error('Can not wrap an empty list of navigation items')
+    }
+
+    const wrapper: NavigationItem = { ...group }
+
+    this.insertBefore(items[0], wrapper)
+    this.append(wrapper, ...items)
+
+    return wrapper
+  }
+
+  /** Sorts the children of `parent`, or the root level. */
+  sort(
+    comparator: (a: NavigationItem, b: NavigationItem) => number,
+    options?: { parent?: NavigationItem; recursive?: boolean }
+  ) {
+    const sort = (items: NavigationItem[]) => {
+      items.sort(comparator)
+
+      if (options?.recursive) {
+        for (const item of items) {
+          if (item.children) {
+            sort(item.children)
+          }
+        }
+      }
+    }
+
+    if (options?.parent) {
+      this.locate(options.parent)
+    }
+
+    sort(options?.parent ? (options.parent.children ?? []) : this.items)
+  }
+
+  private walk() {
+    const entries: [NavigationItem, NavigationItem | undefined][] = []
+
+    const walk = (items: NavigationItem[], parent?: NavigationItem) => {
+      for (const item of items) {
+        entries.push([item, parent])
+
+        if (item.children) {
+          walk(item.children, item)
+        }
+      }
+    }
+
+    walk(this.items)
+
+    return entries
+  }
+
+  /** Returns every item in depth-first order. */
+  flatten() {
+    return this.walk().map(([item]) => item)
+  }
+}
+
+export type AlterNavigationCallback = (
+  items: NavigationItem[],
+  context: { app: Application; event: RendererEvent; tree: NavigationTree }
+) => void | Promise<void>
+
+export type NavigationAncestor = {
+  item: Readonly<Omit<NavigationItem, 'children'>>
+  reflection?: Reflection
+}
+
+export type FormatNavigationCallback = (
+  item: Omit<NavigationItem, 'children'> & Readonly<{ path?: string }>,
+  context: {
+    app: Application
+    event: RendererEvent
+    reflection?: Reflection
+    /** `0` for items at the root level. */
+    depth: number
+    /** Ancestors of the item, closest first. */
+    ancestors: readonly NavigationAncestor[]
+    /** The current children of the item, before they are formatted. */
+    children: readonly NavigationItem[]
+    /**
+     * Removes the item and its children once the callback returns, callbacks
+     * after this one are skipped.
+     */
+    remove(): void
+    /**
+     * Replaces the children of the item once the callback returns, the new
+     * children are formatted afterwards.
+     */
+    setChildren(children: NavigationItem[] | undefined): void
+  }
+) => void | Promise<void>
+
+/** @deprecated Use {@link alterNavigation} instead. */
+export async function readNavigation(app: Application) {
+  const file = resolve(app.options.getValue('out'), 'assets', 'navigation.js')
+
+  return assertJSON(
+    jsonArray(navigationItemSchema),
+    await readGzipJson(file, 'window.navigationData'),
+    file
+  )
+}
+
+/** @deprecated Use {@link alterNavigation} instead. */
+export async function writeNavigation(
+  app: Application,
+  navigation: NavigationItem[]
+) {
+  await writeGzipJson(
+    resolve(app.options.getValue('out'), 'assets', 'navigation.js'),
+    navigation,
+    'window.navigationData'
+  )
+}
+
+type NavigationTasks = {
+  alter: Task<AlterNavigationCallback>[]
+  format: Task<FormatNavigationCallback>[]
+  exports: {
+    format: NavigationExportFormat
+    options: NavigationExportOptions & { file: string }
+  }[]
+}
+
+const navigationTasksStore = new WeakMap<Application, NavigationTasks>()
+
+function getNavigationTasks(app: Application) {
+  if (navigationTasksStore.has(app)) {
+    return navigationTasksStore.get(app)!
+  }
+
+  const navigationTasks: NavigationTasks = {
+    alter: [],
+    format: [],
+    exports: [],
+  }
+
+  navigationTasksStore.set(app, navigationTasks)
+
+  getPostRenderJobs(app).assets.push({
+    name: 'navigation',
+    run: async (transaction) => {
+      const { event } = transaction
+
+      const file = resolve(event.outputDirectory, 'assets', 'navigation.js')
+
+      const items = assertJSON(
+        jsonArray(navigationItemSchema),
+        await transaction.read(file, 'window.navigationData'),
+        file
+      )
+
+      const alterTasks = sortTasks(
+        app,
+        'alterNavigation',
+        navigationTasks.alter
+      )
+      const formatTasks = sortTasks(
+        app,
+        'formatNavigation',
+        navigationTasks.format
+      )
+
+      logTaskOrder(app, 'alterNavigation', alterTasks)
+      logTaskOrder(app, 'formatNavigation', formatTasks)
+
+      const tree = new NavigationTree(items)
+
+      const getKey = (item: NavigationItem) => item.path ?? item.text
+
+      const snapshotItems = () => {
+        const entries: [NavigationItem, string | undefined][] = []
+
+        const walk = (items: NavigationItem[], parent?: string) => {
+          for (const item of items) {
+            entries.push([item, parent])
+
+            if (item.children) {
+              walk(item.children, getKey(item))
+            }
+          }
+        }
+
+        walk(items)
+
+        return createChangeSnapshot(
+          entries,
+          ([item]) => getKey(item),
+          ([item, parent]) => ({ ...item, children: undefined, parent })
+        )
+      }
+
+      for (const alter of alterTasks) {
+        const tracked = transaction.track(
+          'navigation',
+          'alterNavigation',
+          alter,
+          snapshotItems
+        )
+
+        await transaction.run(
+          'alterNavigation',
+          alter,
+          'assets/navigation.js',
+          () => alter.callback(items, { app, event, tree })
+        )
+
+        tracked()
+      }
+
+      const theme = app.renderer.theme! as DefaultTheme
+
+      async function formatNavigationItems(
+        items: NavigationItem[],
+        ancestors: NavigationAncestor[]
+      ) {
+        const keptItems: NavigationItem[] = []
+
+        for (const item of [...items]) {
+          const reflection = item.path
+            ? getReflectionByUrl(app, event, item.path)
+            : undefined
+
+          if (reflection) {
+            if (item.text === undefined) {
+              item.text = reflection.name
+            }
+
+            if (item.kind === undefined) {
+              item.kind = reflection.kind
+            }
+
+            if (item.class === undefined) {
+              if (
+                reflection instanceof DeclarationReflection ||
+                reflection instanceof DocumentReflection
+              ) {
+                item.class = theme.getReflectionClasses(reflection)
+              } else {
+                item.class = ''
+              }
+
+              if (reflection.isDeprecated()) {
+                if (item.class) {
+                  item.class = ' ' + item.class
+                }
+
+                item.class = 'deprecated' + item.class
+              }
+            }
+          }
+
+          const dummyItem = {
+            text: item.text,
+            kind: item.kind,
+            path: item.path,
+            class: item.class,
+          }
+
+          let removed = false
+
+          const key = getKey(item)
+
+          for (const format of formatTasks) {
+            let children: NavigationItem[] | undefined | null = null
+
+            const tracked = transaction.track(
+              'navigation',
+              'formatNavigation',
+              format,
+              () =>
+                createChangeSnapshot(
+                  removed ? [] : [dummyItem],
+                  () => key,
+                  (value) => ({
+                    ...value,
+                    children: item.children?.map(getKey),
+                  })
+                )
+            )
+
+            const keep = await transaction.run(
+              'formatNavigation',
+              format,
+              item.path ?? `navigation item "${item.text}"`,
+              () =>
+                format.callback(dummyItem, {
+                  app,
+                  event,
+                  reflection,
+                  depth: ancestors.length,
+                  ancestors,
+                  children: [...(item.children ?? [])],
+                  remove() {
+                    removed = true
+                  },
+                  setChildren(newChildren) {
+                    children = newChildren
+                  },
+                })
+            )
+
+            if (!keep) {
+              removed = true
+            }
+
+            if (!removed && children !== null) {
+              item.children = children
+            }
+
+            tracked()
+
+            if (removed) {
+              break
+            }
+          }
+
+          if (removed) {
+            continue
+          }
+
+          item.text = dummyItem.text
+          item.kind = dummyItem.kind
+          item.class = dummyItem.class
+
+          keptItems.push(item)
+
+          if (item.children && item.children.length) {
+            await formatNavigationItems(item.children, [
+              { item: dummyItem, reflection },
+              ...ancestors,
+            ])
+          }
+
+          // TypeDoc omits `children` when there are none
+          if (item.children && !item.children.length) {
+            delete item.children
+          }
+        }
+
+        items.splice(0, items.length, ...keptItems)
+      }
+
+      await formatNavigationItems(items, [])
+
+      transaction.write(file, 'window.navigationData', items)
+
+      for (const { format, options } of navigationTasks.exports) {
+        const exportedItems = createNavigationExportItems(
+          items,
+          createExportUrl(app, options.baseUrl)
+        )
+
+        transaction.write(
+          resolve(event.outputDirectory, options.file),
+          undefined,
+          format === 'sidebar'
+            ? exportedItems
+            : format === 'breadcrumbs'
+              ? createNavigationBreadcrumbs(exportedItems, [])
+              : format(exportedItems, { app, event }),
+          { mode: 'plain' }
+        )
+      }
+    },
+  })
+
+  return navigationTasks
+}
+
+/**
+ * @example
+ *
+ * ```ts
+ * import { Application, ReflectionKind } from 'typedoc'
+ * import { alterNavigation } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   alterNavigation(app, (items) => {
+ *     items.unshift({
+ *       path: 'foo.html#bar',
+ *       text: 'Foo',
+ *       kind: ReflectionKind.Document
+ *     })
+ *   })
+ * }
+ * ```
+ */
+export function alterNavigation(
+  app: Application,
+  callback: AlterNavigationCallback,
+  options?: TaskOptions
+) {
+  const tasks = getNavigationTasks(app).alter
+
+  tasks.push(createTask(tasks, callback, options))
+}
+
+/**
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import { formatNavigation } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   formatNavigation(app, (item) => {
+ *     if (!item.class) {
+ *       item.class = ''
+ *     } else {
+ *       item.class += ' '
+ *     }
+ *
+ *     item.class += 'foo-bar'
+ *   })
+ * }
+ * ```
+ */
+export function formatNavigation(
+  app: Application,
+  callback: FormatNavigationCallback,
+  options?: TaskOptions
+) {
+  const tasks = getNavigationTasks(app).format
+
+  tasks.push(createTask(tasks, callback, options))
+}
+
+/**
+ * Returns the names of the registered navigation tasks in the order they will
+ * run. Problems with the order are only reported when the tasks run.
+ */
+export function getNavigationTaskOrder(app: Application) {
+  const navigationTasks = getNavigationTasks(app)
+
+  return {
+    alter: sortTasks(app, 'alterNavigation', navigationTasks.alter, {
+      silent: true,
+    }).map((task) => task.name),
+    format: sortTasks(app, 'formatNavigation', navigationTasks.format, {
+      silent: true,
+    }).map((task) => task.name),
+  }
+}
+
+/** A navigation item with its URL resolved and its kind as a name. */
+export type NavigationExportItem = {
+  text: string
+  url?: string
+  /** Name of the {@link ReflectionKind} member, e.g. `"TypeAlias"`. */
+  kind?: string
+  class?: string
+  children?: NavigationExportItem[]
+}
+
+export type NavigationBreadcrumb = {
+  text: string
+  url: string
+  kind?: string
+  /** Ancestors of the item, most general first. */
+  breadcrumbs: { text: string; url?: string }[]
+}
+
+export type NavigationExportFormat =
+  /** The navigation tree as nested {@link NavigationExportItem}s. */
+  | 'sidebar'
+  /** A {@link NavigationBreadcrumb} for every item with a URL. */
+  | 'breadcrumbs'
+  | ((
+      items: NavigationExportItem[],
+      context: { app: Application; event: RendererEvent }
+    ) => JSONValue)
+
+export type NavigationExportOptions = {
+  /** Output file, relative to the output directory. Defaults to `navigation-<format>.json`. */
+  file?: string
+  /**
+   * Prefixed to every URL, e.g. `/api/` or `https://example.com/docs/`.
+   * Defaults to the `hostedBaseUrl` option, URLs are left relative if neither
+   * is set.
+   */
+  baseUrl?: string
+}
+
+function createNavigationExportItems(
+  items: NavigationItem[],
+  getUrl: (path: string) => string
+): NavigationExportItem[] {
+  return items.map((item) => ({
+    text: item.text,
+    url: item.path === undefined ? undefined : getUrl(item.path),
+    kind: item.kind === undefined ? undefined : ReflectionKind[item.kind],
+    class: item.class || undefined,
+    children: item.children
+      ? createNavigationExportItems(item.children, getUrl)
+      : undefined,
+  }))
+}
+
+function createNavigationBreadcrumbs(
+  items: NavigationExportItem[],
+  ancestors: NavigationBreadcrumb['breadcrumbs']
+): NavigationBreadcrumb[] {
+  return items.flatMap((item) => [
+    ...(item.url === undefined
+      ? []
+      : [
+          {
+            text: item.text,
+            url: item.url,
+            kind: item.kind,
+            breadcrumbs: ancestors,
+          },
+        ]),
+    ...createNavigationBreadcrumbs(item.children ?? [], [
+      ...ancestors,
+      { text: item.text, url: item.url },
+    ]),
+  ])
+}
+
+/**
+ * Writes the final navigation tree, after all navigation tasks have run, to a
+ * standalone JSON file, e.g. for the sidebar of another documentation site.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import { exportNavigation } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   // writes navigation-sidebar.json
+ *   exportNavigation(app, 'sidebar', { baseUrl: '/api/' })
+ *
+ *   exportNavigation(
+ *     app,
+ *     (items) =>
+ *       items.map((item) => ({ label: item.text, link: item.url ?? null })),
+ *     { file: 'sidebar-links.json' }
+ *   )
+ * }
+ * ```
+ */
+export function exportNavigation(
+  app: Application,
+  format: NavigationExportFormat,
+  options?: NavigationExportOptions
+) {
+  if (typeof format === 'function' && !options?.file) {
+    throw new Error('exportNavigation requires a file for custom formats')
+  }
+
+  getNavigationTasks(app).exports.push({
+    format,
+    options: {
+      file: options?.file ?? `navigation-${format}.json`,
+      baseUrl: options?.baseUrl,
+    },
+  })
+}
+
+function isExternalUrl(url: string) {
+  return /^[a-z][a-z\d+.-]*:/i.test(url)
+}
+
+/** Prefixes relative URLs of exported assets with `baseUrl` and a slash. */
+function createExportUrl(
+  app: Application,
+  baseUrl = app.options.getValue('hostedBaseUrl')
+) {
+  const prefix = baseUrl ? baseUrl.replace(/\/?$/, '/') : ''
+
+  return (url: string) => (isExternalUrl(url) ? url : prefix + url)
+}
+
+const checkAssetLinksRegistered = new WeakSet<Application>()
+
+/**
+ * Registers a job that runs after every search and navigation task and checks
+ * that each {@link NavigationItem.path} and {@link SearchItem.url} points to a
+ * written file, and to an existing `id` if it has an `#anchor`.
+ *
+ * Broken links are reported according to the `libUtilsValidateAssetLinks`
+ * option, `"warn"` by default. Set it to `"error"` to fail the build.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import { checkAssetLinks } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   checkAssetLinks(app)
+ * }
+ * ```
+ */
+export function checkAssetLinks(app: Application) {
+  const getOptions = declarePluginOptions(app, 'libUtils', {
+    validateAssetLinks: {
+      help: 'Check the links in the search and navigation assets after all plugins have altered them.',
+      schema: jsonLiteral('off', 'warn', 'error'),
+      defaultValue: 'warn',
+    },
+  })
+
+  if (checkAssetLinksRegistered.has(app)) {
+    return
+  }
+
+  checkAssetLinksRegistered.add(app)
+
+  getPostRenderJobs(app).checks.push({
+    name: 'checkAssetLinks',
+    pages: true,
+    run: async (transaction) => {
+      const { event } = transaction
+
+      const level = getOptions().validateAssetLinks
+
+      if (level === 'off') {
+        return
+      }
+
+      const report = (message: string) => app.logger[level](message)
+
+      const out = event.outputDirectory
+
+      const anchorsByFile = new Map<string, Set<string> | null>()
+
+      async function getAnchors(file: string) {
+        if (!anchorsByFile.has(file)) {
+          try {
+            const html = await readFile(resolve(out, file), {
+              encoding: 'utf8',
+            })
+
+            anchorsByFile.set(
+              file,
+              new Set(
+                [...html.matchAll(/\s(?:id|name)=(["'])(.*?)\1/g)].map(
+                  (match) => match[2]
+                )
+              )
+            )
+          } catch {
+            anchorsByFile.set(file, null)
+          }
+        }
+
+        return anchorsByFile.get(file)!
+      }
+
+      let broken = 0
+
+      async function checkLink(source: string, url: string | undefined) {
+        if (!url || isExternalUrl(url)) {
+          return
+        }
+
+        const [file, anchor] = url.replace(/\?[^#]*/, '').split('#', 2)
+
+        const anchors = await getAnchors(file)
+
+        let problem: string | undefined
+
+        if (!anchors) {
+          problem = `${file} does not exist`
+        } else if (anchor) {
+          let decoded: string | undefined
+
+          try {
+            decoded = decodeURIComponent(anchor)
+          } catch {
+            problem = `#${anchor} is not a valid anchor`
+          }
+
+          if (decoded !== undefined && !anchors.has(decoded)) {
+            problem = `${file} has no #${anchor} anchor`
+          }
+        }
+
+        if (problem) {
+          broken++
+
+          report(`Broken ${source} link ${url}, ${problem}`)
+        }
+      }
+
+      const searchFile = resolve(out, 'assets', 'search.js')
+
+      if (existsSync(searchFile)) {
+        const search = assertJSON(
+          searchSchema,
+          await transaction.read(searchFile, 'window.searchData'),
+          searchFile
+        )
+
+        for (const row of search.rows) {
+          await checkLink('search', row.url)
+        }
+      }
+
+      const navigationFile = resolve(out, 'assets', 'navigation.js')
+
+      if (existsSync(navigationFile)) {
+        const navigation = assertJSON(
+          jsonArray(navigationItemSchema),
+          await transaction.read(navigationFile, 'window.navigationData'),
+          navigationFile
+        )
+
+        for (const item of new NavigationTree(navigation).flatten()) {
+          await checkLink('navigation', item.path)
+        }
+      }
+
+      app.logger.verbose(
+        `Checked links in ${anchorsByFile.size} files, found ${broken} broken`
+      )
+    },
+  })
+}
+
+export type AssetData =
+  | JSONValue
+  | ((context: {
+      app: Application
+      event: RendererEvent
+    }) => JSONValue | Promise<JSONValue>)
+
+export type AlterAssetCallback = (
+  data: JSONValue,
+  context: { app: Application; event: RendererEvent }
+) => JSONValue | void | Promise<JSONValue | void>
+
+export type FormatAssetCallback = (
+  item: JSONValue,
+  context: {
+    app: Application
+    event: RendererEvent
+    index: number
+    /** Removes the item from the asset, callbacks after this one are skipped. */
+    remove(): void
+  }
+) => JSONValue | void | Promise<JSONValue | void>
+
+type Asset = {
+  name: string
+  jsVariable: string
+  data: AssetData
+}
+
+const assetsStore = new WeakMap<
+  Application,
+  {
+    emitted: Map<string, Asset>
+    alter: Map<string, Task<AlterAssetCallback>[]>
+    format: Map<string, Task<FormatAssetCallback>[]>
+  }
+>()
+
+function getAssets(app: Application) {
+  if (assetsStore.has(app)) {
+    return assetsStore.get(app)!
+  }
+
+  const assets = {
+    emitted: new Map<string, Asset>(),
+    alter: new Map<string, Task<AlterAssetCallback>[]>(),
+    format: new Map<string, Task<FormatAssetCallback>[]>(),
+  }
+
+  assetsStore.set(app, assets)
+
+  app.renderer.hooks.on('head.end', (context) =>
+    JSX.createElement(
+      JSX.Fragment,
+      null,
+      ...[...assets.emitted.values()].map((asset) =>
+        JSX.createElement('script', {
+          defer: true,
+          src: context.relativeURL(`assets/${asset.name}.js`, true),
+        })
+      )
+    )
+  )
+
+  getPostRenderJobs(app).assets.push({
+    name: 'assets',
+    run: async (transaction) => {
+      const { event } = transaction
+
+      for (const asset of assets.emitted.values()) {
+        const alterTasks = sortTasks(
+          app,
+          `alterAsset(${asset.name})`,
+          assets.alter.get(asset.name) ?? []
+        )
+        const formatTasks = sortTasks(
+          app,
+          `formatAsset(${asset.name})`,
+          assets.format.get(asset.name) ?? []
+        )
+
+        // static data is cloned so that alter callbacks can not change it for
+        // the next render
+        let data: JSONValue =
+          typeof asset.data === 'function'
+            ? await asset.data({ app, event })
+            : JSON.parse(JSON.stringify(asset.data))
+
+        const file = `assets/${asset.name}.js`
+
+        for (const alter of alterTasks) {
+          // the whole asset is the item, so it is never skipped
+          await transaction.run(
+            `alterAsset(${asset.name})`,
+            alter,
+            file,
+            async () => {
+              data = (await alter.callback(data, { app, event })) ?? data
+            }
+          )
         }
 
-        if (item.parent === undefined) {
-          let parent = reflection.parent
+        if (formatTasks.length) {
+          if (!Array.isArray(data)) {
+            app.logger.warn(
+              `Asset ${asset.name} is not an array, its format callbacks were skipped`
+            )
+          } else {
+            const items: JSONValue[] = []
+
+            for (const [index, value] of data.entries()) {
+              let item = value
+              let removed = false
+
+              for (const format of formatTasks) {
+                const keep = await transaction.run(
+                  `formatAsset(${asset.name})`,
+                  format,
+                  `${file} item ${index}`,
+                  async () => {
+                    item =
+                      (await format.callback(item, {
+                        app,
+                        event,
+                        index,
+                        remove() {
+                          removed = true
+                        },
+                      })) ?? item
+                  }
+                )
+
+                if (!keep) {
+                  removed = true
+                }
+
+                if (removed) {
+                  break
+                }
+              }
 
-          if (parent instanceof ProjectReflection) {
-            parent = undefined
-          }
+              if (!removed) {
+                items.push(item)
+              }
+            }
 
-          if (parent) {
-            item.parent = parent.getFullName()
+            data = items
           }
         }
 
-        if (item.comment === undefined && searchInComments) {
-          const comments: Comment[] = []
+        transaction.write(
+          resolve(event.outputDirectory, file),
+          asset.jsVariable,
+          data
+        )
+      }
+    },
+  })
+
+  return assets
+}
+
+/**
+ * Writes `data` to `assets/<name>.js` in the same gzipped format TypeDoc uses
+ * for its search and navigation data, and adds a script tag for it to every
+ * page. Other plugins can change the data with {@link alterAsset} and
+ * {@link formatAsset}.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import { emitAsset } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   emitAsset(app, {
+ *     name: 'changelog',
+ *     jsVariable: 'window.changelogData',
+ *     data: async ({ event }) => await readChangelog(event.project),
+ *   })
+ * }
+ * ```
+ */
+export function emitAsset(
+  app: Application,
+  asset: { name: string; jsVariable: string; data: AssetData }
+) {
+  if (!/^[\w.-]+$/.test(asset.name)) {
+    throw new Error(`Invalid asset name ${JSON.stringify(asset.name)}`)
+  }
+
+  if (['search', 'navigation', 'main', 'icons'].includes(asset.name)) {
+    throw new Error(`Asset name ${asset.name} is reserved by TypeDoc`)
+  }
+
+  const assets = getAssets(app)
+
+  if (assets.emitted.has(asset.name)) {
+    app.logger.warn(
+      `Asset ${asset.name} has already been emitted, ignoring the second one`
+    )
+
+    return
+  }
+
+  assets.emitted.set(asset.name, { ...asset })
+}
+
+/**
+ * Alters the data of an asset emitted with {@link emitAsset}, the returned value
+ * replaces the data if it is not `undefined`.
+ */
+export function alterAsset(
+  app: Application,
+  name: string,
+  callback: AlterAssetCallback,
+  options?: TaskOptions
+) {
+  const alter = getAssets(app).alter
+
+  const tasks = alter.get(name) ?? []
+
+  tasks.push(createTask(tasks, callback, options))
+
+  alter.set(name, tasks)
+}
+
+/**
+ * Formats each item of an asset emitted with {@link emitAsset} whose data is an
+ * array, the returned value replaces the item if it is not `undefined`.
+ */
+export function formatAsset(
+  app: Application,
+  name: string,
+  callback: FormatAssetCallback,
+  options?: TaskOptions
+) {
+  const format = getAssets(app).format
+
+  const tasks = format.get(name) ?? []
+
+  tasks.push(createTask(tasks, callback, options))
+
+  format.set(name, tasks)
+}
+
+export type AlterPageCallback = (
+  page: Readonly<{ url: string; filename: string }> & { contents: string },
+  context: {
+    app: Application
+    event: RendererEvent
+    reflection: Reflection
+  }
+) => void | Promise<void>
+
+const pageTasksStore = new WeakMap<Application, Task<AlterPageCallback>[]>()
+
+function getPageTasks(app: Application) {
+  if (pageTasksStore.has(app)) {
+    return pageTasksStore.get(app)!
+  }
+
+  const pageTasks: Task<AlterPageCallback>[] = []
+
+  pageTasksStore.set(app, pageTasks)
+
+  getPostRenderJobs(app).assets.push({
+    name: 'pages',
+    pages: true,
+    run: async (transaction) => {
+      const { event } = transaction
+
+      const alterTasks = sortTasks(app, 'alterPages', pageTasks)
+
+      logTaskOrder(app, 'alterPages', alterTasks)
 
-          if (reflection.comment) {
-            comments.push(reflection.comment)
+      for (const mapping of event.urls ?? []) {
+        const filename = resolve(event.outputDirectory, mapping.url)
+
+        const contents = await readFile(filename, { encoding: 'utf8' })
+
+        const page = { url: mapping.url, filename, contents }
+
+        for (const alter of alterTasks) {
+          const keep = await transaction.run(
+            'alterPages',
+            alter,
+            page.url,
+            () =>
+              alter.callback(page, { app, event, reflection: mapping.model })
+          )
+
+          if (!keep) {
+            page.contents = contents
+
+            break
           }
+        }
+
+        if (page.contents !== contents) {
+          await writeFile(filename, page.contents)
+        }
+      }
+    },
+  })
+
+  return pageTasks
+}
+
+/**
+ * Alters the HTML of every rendered page after rendering has finished. Each
+ * page is read once, passed through every registered callback and written
+ * once.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Application } from 'typedoc'
+ * import { alterPages } from '@mrfigg/typedoc-plugin-lib-utils'
+ *
+ * export function load(app: Application) {
+ *   alterPages(
+ *     app,
+ *     (page, { reflection }) => {
+ *       if (!reflection.isDeprecated()) {
+ *         return
+ *       }
+ *
+ *       page.contents = page.contents.replace(
+ *         '</h1>',
+ *         '<span class="badge">Deprecated</span></h1>'
+ *       )
+ *     },
+ *     { name: 'deprecated-badge' }
+ *   )
+ * }
+ * ```
+ */
+export function alterPages(
+  app: Application,
+  callback: AlterPageCallback,
+  options?: TaskOptions
+) {
+  const tasks = getPageTasks(app)
+
+  tasks.push(createTask(tasks, callback, options))
+}
+
+function getCommonDir(app: Application) {
+  if (app.options.packageDir) {
+    return app.options.packageDir
+  }
+
+  const entryPointStrategy = app.options.getValue('entryPointStrategy')
+
+  let entryPoints = app.options.getValue('entryPoints')
+
+  if (entryPointStrategy === EntryPointStrategy.Packages) {
+    entryPoints = entryPoints.map((entryPoint) =>
+      join(entryPoint, 'package.json').replace(/\\/g, '/')
+    )
+  }
+
+  return commondir(entryPoints).replace(/\\/g, '/')
+}
+
+export type ProjectFilePattern = string | RegExp
+
+export type FindProjectFileOptions = {
+  /**
+   * Directory to start searching from, defaults to the entry points' common
+   * directory.
+   */
+  from?: string
+}
+
+function matchProjectFiles(names: string[], patterns: ProjectFilePattern[]) {
+  return patterns.flatMap((pattern) =>
+    names.filter((name) =>
+      typeof pattern === 'string'
+        ? name.toLowerCase() === pattern.toLowerCase()
+        : pattern.test(name)
+    )
+  )
+}
+
+/**
+ * Searches from the entry points' common directory, or `packageDir` if set,
+ * up to the file system root and returns the first file in the closest
+ * directory matching any of `patterns`. Strings match file names without
+ * regard to case, earlier patterns take precedence.
+ */
+export function findProjectFile(
+  app: Application,
+  patterns: ProjectFilePattern | ProjectFilePattern[],
+  options?: FindProjectFileOptions
+) {
+  return findProjectFiles(app, patterns, options)[0] ?? null
+}
+
+/**
+ * Same as {@link findProjectFile}, but returns every matching file in the
+ * closest directory with a match.
+ */
+export function findProjectFiles(
+  app: Application,
+  patterns: ProjectFilePattern | ProjectFilePattern[],
+  options?: FindProjectFileOptions
+) {
+  const patternList = Array.isArray(patterns) ? patterns : [patterns]
+
+  let files: string[] = []
+
+  escalade(options?.from ?? getCommonDir(app), (dir, names) => {
+    const matches = matchProjectFiles(names, patternList)
+
+    if (!matches.length) {
+      return
+    }
+
+    files = [...new Set(matches)].map((name) =>
+      join(dir, name).replace(/\\/g, '/')
+    )
+
+    return dir
+  })
+
+  return files
+}
+
+export function getReadmeFile(app: Application) {
+  const readme = app.options.getValue('readme')
+
+  if (readme === 'none') {
+    return null
+  }
+
+  if (readme) {
+    return resolve(readme).replace(/\\/g, '/')
+  }
+
+  return findProjectFile(app, /^readme\.md$/i)
+}
+
+export type ReadmeFile = {
+  file: string
+  /** E.g. `'zh-CN'` for `README.zh-CN.md`, `undefined` for the default. */
+  locale?: string
+}
+
+/**
+ * Returns the readme file and its localized variants, e.g. `README.ja.md`.
+ * If the `readme` option names a file its variants are looked for next to it.
+ */
+export function getReadmeFiles(app: Application): ReadmeFile[] {
+  const readme = app.options.getValue('readme')
+
+  if (readme === 'none') {
+    return []
+  }
+
+  const localePattern = '([a-z]{2,3}(?:[-_][a-z\\d]+)*)'
+
+  let files: string[]
+  let pattern: RegExp
+
+  if (readme) {
+    const file = resolve(readme)
+    const extension = /\.[^.]*$/.exec(basename(file))?.[0] ?? ''
+    const name = basename(file).slice(
+      0,
+      basename(file).length - extension.length
+    )
+
+    pattern = new RegExp(
+      `^${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:\\.${localePattern})?${extension.replace(/\./g, '\\.')}$`,
+      'i'
+    )
+
+    let names: string[] = []
+
+    try {
+      names = readdirSync(dirname(file))
+    } catch {
+      // only the explicit file
+    }
+
+    files = [
+      file,
+      ...matchProjectFiles(names, [pattern])
+        .map((name) => join(dirname(file), name))
+        .filter((variant) => variant !== file),
+    ].map((file) => file.replace(/\\/g, '/'))
+  } else {
+    pattern = new RegExp(`^readme(?:\\.${localePattern})?\\.md$`, 'i')
+
+    files = findProjectFiles(app, pattern)
+  }
+
+  return files
+    .map((file) => ({
+      file,
+      locale: pattern.exec(basename(file))?.[1],
+    }))
+    .sort((a, b) => (a.locale ?? '').localeCompare(b.locale ?? ''))
+}
+
+export function getChangelogFile(app: Application) {
+  return findProjectFile(app, [
+    /^changelog(?:\.(?:md|markdown|txt))?$/i,
+    /^(?:changes|history)(?:\.(?:md|markdown|txt))?$/i,
+  ])
+}
+
+export function getLicenseFile(app: Application) {
+  return findProjectFile(app, [
+    /^licen[sc]e(?:\.(?:md|markdown|txt))?$/i,
+    /^(?:licen[sc]e|copying)(?:[.-].+)?$/i,
+  ])
+}
+
+export function getContributingFile(app: Application) {
+  return findProjectFile(app, /^contributing(?:\.(?:md|markdown|txt))?$/i)
+}
+
+const packageIdentitySchema = jsonObject({
+  name: jsonString(),
+  version: jsonOptional(jsonString()),
+})
+
+const packageJsonSchema = jsonObject({
+  name: jsonString(),
+  version: jsonOptional(jsonString()),
+  description: jsonOptional(jsonString()),
+  homepage: jsonOptional(jsonString()),
+  repository: jsonOptional(
+    jsonUnion(
+      jsonString(),
+      jsonObject({
+        type: jsonOptional(jsonString()),
+        url: jsonString(),
+        directory: jsonOptional(jsonString()),
+      })
+    )
+  ),
+  exports: jsonOptional(jsonAny()),
+  workspaces: jsonOptional(
+    jsonUnion(
+      jsonArray(jsonString()),
+      jsonObject({ packages: jsonOptional(jsonArray(jsonString())) })
+    )
+  ),
+})
+
+/** Members not covered by the schema are kept as they are. */
+export type PackageJson = JSONObject & InferJSONSchema<typeof packageJsonSchema>
+
+type ProjectFilesCache = {
+  jsonFiles: Map<string, JSONObject | null>
+  packageFile?: string | null
+  packageJsons: Map<string, PackageJson | null>
+}
+
+const projectFilesStore = new WeakMap<Application, ProjectFilesCache>()
+
+function getProjectFilesCache(app: Application) {
+  let cache = projectFilesStore.get(app)
+
+  if (!cache) {
+    const value: ProjectFilesCache = {
+      jsonFiles: new Map(),
+      packageJsons: new Map(),
+    }
+
+    // watch mode converts again after every change
+    app.converter.on(Converter.EVENT_BEGIN, () => {
+      value.jsonFiles.clear()
+      delete value.packageFile
+      value.packageJsons.clear()
+    })
+
+    projectFilesStore.set(app, value)
+
+    cache = value
+  }
+
+  return cache
+}
+
+function readJsonFileSync(app: Application, file: string) {
+  const { jsonFiles } = getProjectFilesCache(app)
+
+  file = resolve(file)
+
+  if (!jsonFiles.has(file)) {
+    try {
+      const value = JSON.parse(decodeText(readFileSync(file), 'auto'))
+
+      jsonFiles.set(file, isJSONObject(value) ? value : null)
+    } catch {
+      jsonFiles.set(file, null)
+    }
+  }
+
+  const value = jsonFiles.get(file)!
+
+  // callers may modify the result, the cached value has to stay untouched
+  return value && (JSON.parse(JSON.stringify(value)) as JSONObject)
+}
+
+export function getPackageFile(app: Application) {
+  return (
+    escalade(getCommonDir(app), (dir, names) => {
+      const packageFile = names.find((name) => /^package\.json$/.test(name))
+
+      if (!packageFile) {
+        return
+      }
+
+      if (
+        matchesJSON(
+          packageIdentitySchema,
+          readJsonFileSync(app, join(dir, packageFile))
+        )
+      ) {
+        return packageFile
+      }
+    })?.replace(/\\/g, '/') ?? null
+  )
+}
 
-          if (reflection.isDeclaration()) {
-            for (const signature of reflection.signatures ?? []) {
-              if (!signature.comment) {
-                continue
-              }
+function readPackageJson(app: Application, file: string) {
+  const { packageJsons } = getProjectFilesCache(app)
 
-              comments.push(signature.comment)
-            }
+  file = resolve(file).replace(/\\/g, '/')
 
-            if (reflection.getSignature?.comment) {
-              comments.push(reflection.getSignature.comment)
-            }
+  if (!packageJsons.has(file)) {
+    const packageJson = readJsonFileSync(app, file)
 
-            if (reflection.setSignature?.comment) {
-              comments.push(reflection.setSignature.comment)
-            }
-          }
+    const result = validateJSON(packageJsonSchema, packageJson, { all: true })
 
-          if (comments.length) {
-            item.comment = comments
-              .flatMap((comment) => [
-                ...comment.summary,
-                ...comment.blockTags.flatMap((token) => token.content),
-              ])
-              .map((part) => part.text)
-              .join('\n')
-          }
-        }
+    if (packageJson && !result.valid) {
+      for (const issue of result.issues) {
+        // only known members are validated, so the first key is an identifier
+        const key = /^\$\.(\w+)/.exec(issue.path)?.[1]
 
-        if (
-          item.document === undefined &&
-          searchInDocuments &&
-          reflection.isDocument()
-        ) {
-          item.document = reflection.content
-            .flatMap((part) => part.text)
-            .join('\n')
-        }
+        app.logger.warn(`Ignoring ${issue.path} in ${file}, ${issue.message}`)
 
-        if (item.boost === undefined) {
-          item.boost = reflection.relevanceBoost ?? 1
+        if (key) {
+          delete packageJson[key]
         }
       }
-
-      for (const format of searchTasks.format) {
-        await format(item, { app, event, reflection })
-      }
-
-      if (item.url && (item.boost === undefined || item.boost > 0)) {
-        builder.add(
-          {
-            name: item.name,
-            comment: item.comment,
-            document: item.document,
-            ...(reflection ? indexEvent.searchFields[reflectionIndex] : {}),
-            id,
-          },
-          {
-            boost: item.boost ?? 1,
-          }
-        )
-      }
-
-      item.name = item.name ?? ''
-      delete item.comment
-      delete item.document
-      delete item.boost
     }
 
-    search.index = builder.build().toJSON()
-
-    await writeGzipJson(
-      resolve(app.options.getValue('out'), 'assets', 'search.js'),
-      search as JSONValue,
-      'window.searchData'
+    // a missing `name` can not be dropped, the whole file is ignored then
+    packageJsons.set(
+      file,
+      matchesJSON(packageJsonSchema, packageJson) ? packageJson : null
     )
-  })
+  }
 
-  return searchTasks
+  const value = packageJsons.get(file)!
+
+  // callers may modify the result, the cached value has to stay untouched
+  return value && (JSON.parse(JSON.stringify(value)) as PackageJson)
 }
 
 /**
- * @example
- *
- * ```ts
- * import { Application, ReflectionKind } from 'typedoc'
- * import { alterSearch } from '@mrfigg/typedoc-plugin-lib-utils'
- *
- * export function load(app: Application) {
- *   alterSearch(app, (items) => {
- *     items.unshift({
- *       url: 'foo.html#bar',
- *       name: 'Foo',
- *       kind: ReflectionKind.Document,
- *       comment: undefined,
- *       document: 'Lorem ipsum dolor sit amet...'
- *     })
- *   })
- * }
- * ```
+ * Returns the contents of the file found by {@link getPackageFile}. Members
+ * with an unexpected type are removed with a warning. The file is only read
+ * and validated once per conversion, every call returns a new copy.
  */
-export function alterSearch(app: Application, callback: AlterSearchCallback) {
-  getSearchTasks(app).alter.push(callback)
+export function getPackageJson(app: Application): PackageJson | null {
+  const cache = getProjectFilesCache(app)
+
+  if (cache.packageFile === undefined) {
+    cache.packageFile = getPackageFile(app)
+  }
+
+  return cache.packageFile ? readPackageJson(app, cache.packageFile) : null
 }
 
 /**
- * @example
- *
- * ```ts
- * import { Application } from 'typedoc'
- * import { formatSearch } from '@mrfigg/typedoc-plugin-lib-utils'
- *
- * export function load(app: Application) {
- *   formatSearch(app, (item) => {
- *     if (!item.document) {
- *       return
- *     }
- *
- *     item.document = item.document.replace(/foo/g, 'bar')
- *   })
- * }
- * ```
+ * Returns a browsable URL for the `repository` field of a package.json, e.g.
+ * `https://github.com/foo/bar` for `git+https://github.com/foo/bar.git` or
+ * `github:foo/bar`. A `directory` is appended for GitHub, GitLab and
+ * Bitbucket.
  */
-export function formatSearch(app: Application, callback: FormatSearchCallback) {
-  getSearchTasks(app).format.push(callback)
-}
+export function getRepositoryUrl(packageJson: Pick<PackageJson, 'repository'>) {
+  const repository = packageJson.repository
 
-export type NavigationItem = {
-  text: string
-  kind: ReflectionKind
-  path?: string
-  class?: string
-  children?: NavigationItem[]
-}
+  if (!repository) {
+    return undefined
+  }
 
-export type AlterNavigationCallback = (
-  items: NavigationItem[],
-  context: { app: Application; event: RendererEvent }
-) => void | Promise<void>
+  let url = typeof repository === 'string' ? repository : repository.url
 
-export type FormatNavigationCallback = (
-  item: Omit<NavigationItem, 'children'> & Readonly<{ path?: string }>,
-  context: {
-    app: Application
-    event: RendererEvent
-    reflection?: Reflection
+  const hosts: Record<string, string> = {
+    github: 'github.com',
+    gitlab: 'gitlab.com',
+    bitbucket: 'bitbucket.org',
   }
-) => void | Promise<void>
 
-/** @deprecated Use {@link alterNavigation} instead. */
-export async function readNavigation(app: Application) {
-  return (await readGzipJson(
-    resolve(app.options.getValue('out'), 'assets', 'navigation.js'),
-    'window.navigationData'
-  )) as NavigationItem[]
+  const shorthand =
+    /^(?:(github|gitlab|bitbucket|gist):)?([\w.-]+(?:\/[\w.-]+)?)$/.exec(url)
+
+  if (shorthand && (shorthand[1] || shorthand[2].includes('/'))) {
+    url =
+      shorthand[1] === 'gist'
+        ? `https://gist.github.com/${shorthand[2]}`
+        : `https://${hosts[shorthand[1] ?? 'github']}/${shorthand[2]}`
+  }
+
+  url = url
+    .replace(/^git\+/, '')
+    .replace(/^git@([^:/]+):/, 'https://$1/')
+    .replace(/^(?:git|ssh):\/\/(?:[^@/]+@)?/, 'https://')
+    .replace(/#.*$/, '')
+    .replace(/\.git$/, '')
+    .replace(/\/+$/, '')
+
+  const directory =
+    typeof repository === 'string'
+      ? undefined
+      : repository.directory?.replace(/^\.?\/+|\/+$/g, '')
+
+  if (directory) {
+    const host = /^https?:\/\/([^/]+)/.exec(url)?.[1]
+
+    if (host === 'github.com') {
+      url += `/tree/HEAD/${directory}`
+    } else if (host === 'gitlab.com') {
+      url += `/-/tree/HEAD/${directory}`
+    } else if (host === 'bitbucket.org') {
+      url += `/src/HEAD/${directory}`
+    }
+  }
+
+  return url
 }
 
-/** @deprecated Use {@link alterNavigation} instead. */
-export async function writeNavigation(
-  app: Application,
-  navigation: NavigationItem[]
-) {
-  await writeGzipJson(
-    resolve(app.options.getValue('out'), 'assets', 'navigation.js'),
-    navigation,
-    'window.navigationData'
-  )
+export type PackageManager = 'npm' | 'yarn' | 'pnpm'
+
+export type Workspace = {
+  /** Directory holding the workspace definition. */
+  dir: string
+  manager: PackageManager
+  /** Package globs from `workspaces` or `pnpm-workspace.yaml`. */
+  patterns: string[]
 }
 
-const navigationTasksStore = new WeakMap<
-  Application,
-  { alter: AlterNavigationCallback[]; format: FormatNavigationCallback[] }
->()
+export type PackageInfo = {
+  /** Path of the `package.json` file. */
+  file: string
+  dir: string
+  /** Validated and copied like {@link getPackageJson}. */
+  packageJson: PackageJson
+  /** The module in packages mode, otherwise the project. */
+  reflection?: DeclarationReflection | ProjectReflection
+}
 
-function getNavigationTasks(app: Application) {
-  if (navigationTasksStore.has(app)) {
-    return navigationTasksStore.get(app)!
-  }
+function readPnpmWorkspacePatterns(file: string) {
+  const patterns: string[] = []
 
-  const navigationTasks: {
-    alter: AlterNavigationCallback[]
-    format: FormatNavigationCallback[]
-  } = { alter: [], format: [] }
+  let inPackages = false
 
-  navigationTasksStore.set(app, navigationTasks)
+  // only the `packages` list is needed, so a full YAML parser is not
+  for (const line of decodeText(readFileSync(file), 'auto').split(/\r?\n/)) {
+    if (/^\S/.test(line)) {
+      inPackages = /^packages\s*:/.test(line)
+
+      continue
+    }
 
-  app.renderer.postRenderAsyncJobs.push(async (event) => {
-    const items = (await readGzipJson(
-      resolve(app.options.getValue('out'), 'assets', 'navigation.js'),
-      'window.navigationData'
-    )) as NavigationItem[]
+    const match = /^\s+-\s*(['"]?)(.+?)\1\s*(?:#.*)?$/.exec(line)
 
-    for (const alter of navigationTasks.alter) {
-      await alter(items, { app, event })
+    if (inPackages && match) {
+      patterns.push(match[2])
     }
+  }
 
-    const theme = app.renderer.theme! as DefaultTheme
+  return patterns
+}
 
-    const reflections = Object.values(event.project.reflections).filter(
-      (reflection) =>
-        reflection.url && reflection.name && !reflection.flags.isExternal
-    )
+function globToRegExp(segment: string) {
+  return new RegExp(
+    `^${segment
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '[^/]')}$`
+  )
+}
 
-    async function formatNavigationItems(items: NavigationItem[]) {
-      for (const item of items) {
-        const reflectionIndex = !item.path
-          ? -1
-          : reflections.findIndex((reflection) => reflection.url === item.path)
+function expandPackagePatterns(dir: string, patterns: string[]) {
+  const dirs = new Set<string>()
 
-        const reflection =
-          reflectionIndex === -1 ? undefined : reflections[reflectionIndex]
+  const expand = (base: string, segments: string[], exclude: boolean) => {
+    if (!segments.length) {
+      if (existsSync(join(base, 'package.json'))) {
+        if (exclude) {
+          dirs.delete(base)
+        } else {
+          dirs.add(base)
+        }
+      }
 
-        if (reflection) {
-          if (item.text === undefined) {
-            item.text = reflection.name
-          }
+      return
+    }
 
-          if (item.kind === undefined) {
-            item.kind = reflection.kind
-          }
+    const [segment, ...rest] = segments
 
-          if (item.class === undefined) {
-            if (
-              reflection instanceof DeclarationReflection ||
-              reflection instanceof DocumentReflection
-            ) {
-              item.class = theme.getReflectionClasses(reflection)
-            } else {
-              item.class = ''
-            }
+    if (segment === '**') {
+      expand(base, rest, exclude)
+    }
 
-            if (reflection.isDeprecated()) {
-              if (item.class) {
-                item.class = ' ' + item.class
-              }
+    if (!/[*?]/.test(segment)) {
+      expand(join(base, segment), rest, exclude)
 
-              item.class = 'deprecated' + item.class
-            }
-          }
-        }
+      return
+    }
 
-        const dummyItem = {
-          text: item.text,
-          kind: item.kind,
-          path: item.path,
-          class: item.class,
-        }
+    const pattern = globToRegExp(segment)
 
-        for (const format of navigationTasks.format) {
-          await format(dummyItem, { app, event, reflection })
-        }
+    let entries: Dirent[]
 
-        item.text = dummyItem.text
-        item.kind = dummyItem.kind
-        item.class = dummyItem.class
+    try {
+      entries = readdirSync(base, { withFileTypes: true })
+    } catch {
+      return
+    }
 
-        if (item.children && item.children.length) {
-          await formatNavigationItems(item.children)
-        }
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name === 'node_modules') {
+        continue
+      }
+
+      if (segment === '**') {
+        expand(join(base, entry.name), segments, exclude)
+      } else if (pattern.test(entry.name)) {
+        expand(join(base, entry.name), rest, exclude)
       }
     }
+  }
 
-    await formatNavigationItems(items)
+  for (let pattern of patterns) {
+    const exclude = pattern.startsWith('!')
 
-    await writeGzipJson(
-      resolve(app.options.getValue('out'), 'assets', 'navigation.js'),
-      items,
-      'window.navigationData'
+    pattern = pattern.replace(/^!/, '')
+
+    // e.g. `C:\` on Windows, which must not become a segment as well
+    const root = isAbsolute(pattern) ? parse(pattern).root : ''
+
+    expand(
+      root || dir,
+      pattern
+        .slice(root.length)
+        .split(/[\\/]+/)
+        .filter((segment) => segment && segment !== '.'),
+      exclude
     )
-  })
+  }
 
-  return navigationTasks
+  return [...dirs]
 }
 
 /**
- * @example
- *
- * ```ts
- * import { Application, ReflectionKind } from 'typedoc'
- * import { alterNavigation } from '@mrfigg/typedoc-plugin-lib-utils'
- *
- * export function load(app: Application) {
- *   alterNavigation(app, (items) => {
- *     items.unshift({
- *       path: 'foo.html#bar',
- *       text: 'Foo',
- *       kind: ReflectionKind.Document
- *     })
- *   })
- * }
- * ```
+ * Finds the closest npm, yarn or pnpm workspace definition above the
+ * entry points.
  */
-export function alterNavigation(
-  app: Application,
-  callback: AlterNavigationCallback
-) {
-  getNavigationTasks(app).alter.push(callback)
+export function getWorkspace(app: Application): Workspace | null {
+  let workspace: Workspace | null = null
+
+  escalade(getCommonDir(app), (dir, names) => {
+    if (names.includes('pnpm-workspace.yaml')) {
+      workspace = {
+        dir: dir.replace(/\\/g, '/'),
+        manager: 'pnpm',
+        patterns: readPnpmWorkspacePatterns(join(dir, 'pnpm-workspace.yaml')),
+      }
+
+      return dir
+    }
+
+    if (!names.includes('package.json')) {
+      return
+    }
+
+    const packageJson = readJsonFileSync(app, join(dir, 'package.json'))
+
+    const workspaces = Array.isArray(packageJson?.workspaces)
+      ? packageJson.workspaces
+      : isJSONObject(packageJson?.workspaces) &&
+          Array.isArray(packageJson.workspaces.packages)
+        ? packageJson.workspaces.packages
+        : null
+
+    if (!workspaces) {
+      return
+    }
+
+    const packageManager = packageJson?.packageManager
+
+    workspace = {
+      dir: dir.replace(/\\/g, '/'),
+      manager:
+        names.includes('yarn.lock') ||
+        names.includes('.yarnrc.yml') ||
+        (typeof packageManager === 'string' &&
+          packageManager.startsWith('yarn@'))
+          ? 'yarn'
+          : 'npm',
+      patterns: workspaces.filter(
+        (workspace): workspace is string => typeof workspace === 'string'
+      ),
+    }
+
+    return dir
+  })
+
+  return workspace
 }
 
 /**
+ * Returns every package being documented. In packages mode these are the
+ * entry point packages, otherwise the members of the workspace if there is one,
+ * or else the package found by {@link getPackageFile}.
+ *
+ * Pass the project to map each package to its reflection.
+ *
  * @example
  *
  * ```ts
- * import { Application } from 'typedoc'
- * import { formatNavigation } from '@mrfigg/typedoc-plugin-lib-utils'
+ * import { Application, Converter } from 'typedoc'
+ * import { getPackages } from '@mrfigg/typedoc-plugin-lib-utils'
  *
  * export function load(app: Application) {
- *   formatNavigation(app, (item) => {
- *     if (!item.class) {
- *       item.class = ''
- *     } else {
- *       item.class += ' '
+ *   app.converter.on(Converter.EVENT_RESOLVE_END, (context) => {
+ *     for (const { packageJson, reflection } of getPackages(app, context.project)) {
+ *       reflection?.comment?.summary.push({
+ *         kind: 'text',
+ *         text: `Version ${packageJson.version}`,
+ *       })
  *     }
- *
- *     item.class += 'foo-bar'
  *   })
  * }
  * ```
  */
-export function formatNavigation(
+export function getPackages(
   app: Application,
-  callback: FormatNavigationCallback
-) {
-  getNavigationTasks(app).format.push(callback)
-}
-
-function getCommonDir(app: Application) {
-  if (app.options.packageDir) {
-    return app.options.packageDir
-  }
-
-  const entryPointStrategy = app.options.getValue('entryPointStrategy')
+  project?: ProjectReflection
+): PackageInfo[] {
+  let dirs: string[]
 
-  let entryPoints = app.options.getValue('entryPoints')
-
-  if (entryPointStrategy === EntryPointStrategy.Packages) {
-    entryPoints = entryPoints.map((entryPoint) =>
-      join(entryPoint, 'package.json').replace(/\\/g, '/')
+  if (
+    app.options.getValue('entryPointStrategy') === EntryPointStrategy.Packages
+  ) {
+    dirs = expandPackagePatterns(
+      process.cwd(),
+      app.options.getValue('entryPoints')
     )
-  }
-
-  return commondir(entryPoints).replace(/\\/g, '/')
-}
-
-export function getReadmeFile(app: Application) {
-  const readme = app.options.getValue('readme')
+  } else {
+    const workspace = getWorkspace(app)
 
-  if (readme === 'none') {
-    return null
-  }
+    if (workspace) {
+      dirs = expandPackagePatterns(workspace.dir, workspace.patterns)
+    } else {
+      const packageFile = getPackageFile(app)
 
-  if (readme) {
-    return resolve(readme).replace(/\\/g, '/')
+      dirs = packageFile ? [dirname(packageFile)] : []
+    }
   }
 
-  return (
-    escalade(getCommonDir(app), (dir, names) => {
-      const readmeFile = names.find((name) => /^readme\.md$/i.test(name))
-
-      if (!readmeFile) {
-        return
-      }
-
-      return readmeFile
-    })?.replace(/\\/g, '/') ?? null
-  )
-}
+  const packages: PackageInfo[] = []
 
-export function getPackageFile(app: Application) {
-  return (
-    escalade(getCommonDir(app), (dir, names) => {
-      const packageFile = names.find((name) => /^package\.json$/.test(name))
+  for (const dir of dirs) {
+    const file = join(dir, 'package.json')
 
-      if (!packageFile) {
-        return
-      }
+    const packageJson = readPackageJson(app, file)
 
-      try {
-        // TODO: detect encoding?
-        const packageJSON = JSON.parse(
-          readFileSync(join(dir, packageFile), { encoding: 'utf-8' })
-        )
+    if (!packageJson) {
+      continue
+    }
 
-        if (
-          typeof packageJSON !== 'object' ||
-          typeof packageJSON.name !== 'string' ||
-          (packageJSON.version !== undefined &&
-            typeof packageJSON.version !== 'string')
-        ) {
-          throw 'abort'
-        }
+    let reflection: DeclarationReflection | ProjectReflection | undefined
 
-        return packageFile
-      } catch {
-        // ignore
+    if (project) {
+      if (dirs.length === 1 && project.packageName === packageJson.name) {
+        reflection = project
+      } else {
+        reflection = project
+          .getChildrenByKind(ReflectionKind.Module)
+          .find((module) => module.name === packageJson.name)
       }
-    })?.replace(/\\/g, '/') ?? null
-  )
-}
-
-export function getPackageJson(app: Application) {
-  const packageFile = getPackageFile(app)
+    }
 
-  if (!packageFile) {
-    return null
+    packages.push({
+      file: resolve(file).replace(/\\/g, '/'),
+      dir: resolve(dir).replace(/\\/g, '/'),
+      packageJson,
+      reflection,
+    })
   }
 
-  const packageJson = JSON.parse(
-    // TODO: detect encoding?
-    readFileSync(packageFile, { encoding: 'utf-8' })
-  )
-
-  return packageJson
+  return packages
 }
@@ -0,0 +1,236 @@
+/**
+ * @module testing
+ *
+ * Helpers for unit testing plugins built on top of this library without
+ * running a full TypeDoc render.
+ *
+ * @example
+ *
+ * ```ts
+ * import { strict as assert } from 'node:assert'
+ * import {
+ *   convertFixture,
+ *   removeFixture,
+ *   runFixtureTasks,
+ * } from '@mrfigg/typedoc-plugin-lib-utils/dist/testing'
+ * import { load } from '../src/plugin'
+ *
+ * const fixture = await convertFixture(
+ *   { 'src/index.ts': 'export function foo() {}' },
+ *   { plugins: [load] }
+ * )
+ *
+ * try {
+ *   const { search, index } = await runFixtureTasks(fixture)
+ *
+ *   assert.equal(search[index.search('foo')[0].ref].name, 'foo')
+ * } finally {
+ *   await removeFixture(fixture)
+ * }
+ * ```
+ */
+
+'use strict'
+
+import { dirname, join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+
+import {
+  Application,
+  DeclarationReflection,
+  DefaultTheme,
+  DocumentReflection,
+  ProjectReflection,
+  RendererEvent,
+  TSConfigReader,
+  TypeDocOptions,
+} from 'typedoc'
+
+import { Index } from 'lunr'
+
+import {
+  JSONValue,
+  NavigationItem,
+  SearchItem,
+  readGzipJson,
+  rebuildSearch,
+  writeGzipJson,
+} from './index'
+
+export type Fixture = {
+  /** Temporary directory holding the fixture files and the output. */
+  dir: string
+  app: Application
+  project: ProjectReflection
+}
+
+export type FixtureResult = {
+  search: SearchItem[]
+  index: Index
+  /** Index of the row facets, only if a row has facets. */
+  facetIndex?: Index
+  navigation: NavigationItem[]
+}
+
+function setOption<K extends keyof TypeDocOptions>(
+  app: Application,
+  name: K,
+  value: TypeDocOptions[K] | undefined
+) {
+  if (value !== undefined) {
+    app.options.setValue(name, value)
+  }
+}
+
+/**
+ * Writes `files` to a new temporary directory and converts them into a
+ * {@link ProjectReflection}. Every function in `plugins` is called with the
+ * {@link Application} before conversion, the same way TypeDoc calls a plugin's
+ * `load` function.
+ */
+export async function convertFixture(
+  files: Record<string, string>,
+  options?: {
+    plugins?: ((app: Application) => void | Promise<void>)[]
+    typedocOptions?: Partial<TypeDocOptions>
+  }
+): Promise<Fixture> {
+  const dir = await mkdtemp(join(tmpdir(), 'typedoc-plugin-lib-utils-'))
+
+  try {
+    if (!('tsconfig.json' in files)) {
+      files = {
+        ...files,
+        'tsconfig.json': JSON.stringify({
+          compilerOptions: {
+            target: 'es2020',
+            module: 'commonjs',
+            strict: true,
+            skipLibCheck: true,
+          },
+        }),
+      }
+    }
+
+    for (const [name, content] of Object.entries(files)) {
+      await mkdir(dirname(join(dir, name)), { recursive: true })
+      await writeFile(join(dir, name), content)
+    }
+
+    const entryPoints = Object.keys(files)
+      .filter((name) => /\.tsx?$/.test(name) && !/\.d\.ts$/.test(name))
+      .map((name) => join(dir, name))
+
+    const app = await Application.bootstrap(
+      {
+        name: 'fixture',
+        entryPoints,
+        tsconfig: join(dir, 'tsconfig.json'),
+        out: join(dir, 'docs'),
+        readme: 'none',
+        skipErrorChecking: true,
+      },
+      [new TSConfigReader()]
+    )
+
+    for (const plugin of options?.plugins ?? []) {
+      await plugin(app)
+    }
+
+    // set after loading plugins so that options they declare can be used
+    const typedocOptions = options?.typedocOptions ?? {}
+
+    for (const name of Object.keys(
+      typedocOptions
+    ) as (keyof TypeDocOptions)[]) {
+      setOption(app, name, typedocOptions[name])
+    }
+
+    const project = await app.convert()
+
+    if (!project) {
+      throw new Error(`Could not convert fixture in ${dir}`)
+    }
+
+    return { dir, app, project }
+  } catch (error) {
+    await rm(dir, { recursive: true, force: true })
+
+    throw error
+  }
+}
+
+/**
+ * Writes the search and navigation assets TypeDoc would generate for the
+ * fixture, runs the registered search, navigation and asset tasks against them
+ * and returns the decoded result. No HTML pages are rendered, so page tasks and
+ * `checkAssetLinks` are skipped.
+ */
+export async function runFixtureTasks(
+  fixture: Fixture
+): Promise<FixtureResult> {
+  const { app, project } = fixture
+
+  const out = app.options.getValue('out')
+
+  const theme = new DefaultTheme(app.renderer)
+
+  app.renderer.theme = theme
+
+  const event = Object.assign(new RendererEvent(out, project), {
+    [Symbol.for('@mrfigg/typedoc-plugin-lib-utils/withoutPages')]: true,
+  })
+
+  event.urls = theme.getUrls(project)
+
+  await mkdir(join(out, 'assets'), { recursive: true })
+
+  const rows = Object.values(project.reflections)
+    .filter(
+      (reflection) =>
+        (reflection instanceof DeclarationReflection ||
+          reflection instanceof DocumentReflection) &&
+        reflection.url &&
+        reflection.name &&
+        !reflection.flags.isExternal &&
+        (reflection.relevanceBoost ?? 1) > 0
+    )
+    .map((reflection) => ({ url: reflection.url! }))
+
+  const search = rebuildSearch({ rows, index: {} }, app, event)
+
+  await writeGzipJson(
+    join(out, 'assets', 'search.js'),
+    search as unknown as JSONValue,
+    'window.searchData'
+  )
+
+  await writeGzipJson(
+    join(out, 'assets', 'navigation.js'),
+    theme.getNavigation(project) as unknown as JSONValue,
+    'window.navigationData'
+  )
+
+  await Promise.all(app.renderer.postRenderAsyncJobs.map((job) => job(event)))
+
+  const result = (await readGzipJson(
+    join(out, 'assets', 'search.js'),
+    'window.searchData'
+  )) as { rows: SearchItem[]; index: object; facetIndex?: object }
+
+  return {
+    search: result.rows,
+    index: Index.load(result.index),
+    facetIndex: result.facetIndex && Index.load(result.facetIndex),
+    navigation: (await readGzipJson(
+      join(out, 'assets', 'navigation.js'),
+      'window.navigationData'
+    )) as NavigationItem[],
+  }
+}
+
+/** Deletes the temporary directory created by {@link convertFixture}. */
+export async function removeFixture(fixture: Fixture) {
+  await rm(fixture.dir, { recursive: true, force: true })
+}
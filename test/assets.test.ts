@@ -0,0 +1,100 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { join } from 'node:path'
+
+import { LogLevel, Logger } from 'typedoc'
+
+import { convertFixture, removeFixture, runFixtureTasks } from '../src/testing'
+import {
+  JSONValue,
+  alterAsset,
+  alterNavigation,
+  checkAssetLinks,
+  emitAsset,
+  readGzipJson,
+} from '../src/index'
+
+describe('assets', () => {
+  it('does not let alter callbacks change static data for the next render', async () => {
+    const fixture = await convertFixture(
+      { 'src/index.ts': 'export const a = 1' },
+      {
+        plugins: [
+          (app) => {
+            emitAsset(app, {
+              name: 'versions',
+              jsVariable: 'window.versions',
+              data: { versions: ['1.0.0'] },
+            })
+
+            alterAsset(app, 'versions', (data) => {
+              ;(data as { versions: string[] }).versions.push('2.0.0')
+            })
+          },
+        ],
+      }
+    )
+
+    try {
+      const read = () =>
+        readGzipJson(
+          join(fixture.dir, 'docs', 'assets', 'versions.js'),
+          'window.versions'
+        )
+
+      const expected: JSONValue = { versions: ['1.0.0', '2.0.0'] }
+
+      await runFixtureTasks(fixture)
+
+      assert.deepEqual(await read(), expected)
+
+      await runFixtureTasks(fixture)
+
+      assert.deepEqual(await read(), expected)
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+
+  it('reports broken navigation links', async () => {
+    const warnings: string[] = []
+
+    const fixture = await convertFixture(
+      { 'src/index.ts': 'export function foo() {}' },
+      {
+        plugins: [
+          (app) => {
+            checkAssetLinks(app)
+
+            alterNavigation(app, (items) => {
+              items.push(
+                { text: 'missing', path: 'functions/foo.html#nope' },
+                { text: 'invalid', path: 'functions/foo.html#%E0' },
+                { text: 'valid', path: 'functions/foo.html#foo' }
+              )
+            })
+          },
+        ],
+      }
+    )
+
+    try {
+      fixture.app.logger = new (class extends Logger {
+        override log(message: string, level: LogLevel) {
+          if (level === LogLevel.Warn) {
+            warnings.push(message)
+          }
+        }
+      })()
+
+      await fixture.app.generateDocs(fixture.project, join(fixture.dir, 'docs'))
+
+      assert.deepEqual(warnings, [
+        'Broken navigation link functions/foo.html#nope, functions/foo.html has no #nope anchor',
+        'Broken navigation link functions/foo.html#%E0, #%E0 is not a valid anchor',
+      ])
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+})
@@ -0,0 +1,97 @@
+import { strict as assert } from 'node:assert'
+import { after, before, describe, it } from 'node:test'
+import { dirname, join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+
+import { Application } from 'typedoc'
+
+import {
+  findProjectFile,
+  findProjectFiles,
+  getChangelogFile,
+  getLicenseFile,
+  getReadmeFiles,
+} from '../src/index'
+
+describe('project files', () => {
+  let dir: string
+
+  const files = [
+    'README.md',
+    'README.ja.md',
+    'readme.zh-CN.md',
+    'CHANGELOG.md',
+    'LICENSE',
+    'docs/intro.md',
+    'docs/intro.fr.md',
+    'docs/other.md',
+    'packages/x/HISTORY.md',
+    'packages/x/CHANGELOG.md',
+    'packages/x/src/index.ts',
+  ]
+
+  const bootstrap = (options?: { readme?: string }) =>
+    Application.bootstrap(
+      {
+        entryPoints: [join(dir, 'packages/x/src/index.ts')],
+        ...options,
+      },
+      []
+    )
+
+  before(async () => {
+    dir = (await mkdtemp(join(tmpdir(), 'typedoc-plugin-lib-utils-'))).replace(
+      /\\/g,
+      '/'
+    )
+
+    for (const name of files) {
+      await mkdir(dirname(join(dir, name)), { recursive: true })
+      await writeFile(join(dir, name), '')
+    }
+  })
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('returns files from the closest directory with a match', async () => {
+    const app = await bootstrap()
+
+    assert.equal(getChangelogFile(app), `${dir}/packages/x/CHANGELOG.md`)
+    assert.equal(getLicenseFile(app), `${dir}/LICENSE`)
+    assert.equal(
+      findProjectFile(app, ['history.md', /^changelog\.md$/i]),
+      `${dir}/packages/x/HISTORY.md`
+    )
+    assert.deepEqual(
+      findProjectFiles(app, /\.md$/, { from: `${dir}/docs` }).sort(),
+      [
+        `${dir}/docs/intro.fr.md`,
+        `${dir}/docs/intro.md`,
+        `${dir}/docs/other.md`,
+      ]
+    )
+    assert.equal(findProjectFile(app, 'missing.md'), null)
+  })
+
+  it('finds the readme and its locales', async () => {
+    const app = await bootstrap()
+
+    assert.deepEqual(getReadmeFiles(app), [
+      { file: `${dir}/README.md`, locale: undefined },
+      { file: `${dir}/README.ja.md`, locale: 'ja' },
+      { file: `${dir}/readme.zh-CN.md`, locale: 'zh-CN' },
+    ])
+  })
+
+  it('finds the locales of the readme option next to it', async () => {
+    const app = await bootstrap({ readme: join(dir, 'docs/intro.md') })
+
+    assert.deepEqual(getReadmeFiles(app), [
+      { file: `${dir}/docs/intro.md`, locale: undefined },
+      { file: `${dir}/docs/intro.fr.md`, locale: 'fr' },
+    ])
+  })
+})
@@ -0,0 +1,189 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises'
+
+import {
+  GzipJsonError,
+  jsonArray,
+  jsonLiteral,
+  jsonNumber,
+  jsonObject,
+  jsonOptional,
+  jsonString,
+  navigationItemSchema,
+  readGzipJson,
+  searchBoostRuleSchema,
+  searchItemSchema,
+  validateJSON,
+  writeGzipJson,
+} from '../src/index'
+
+describe('JSON schemas', () => {
+  const schema = jsonObject({
+    name: jsonString(),
+    mode: jsonOptional(jsonLiteral('a', 'b')),
+    sizes: jsonArray(jsonNumber()),
+  })
+
+  it('accepts matching values', () => {
+    assert.deepEqual(validateJSON(schema, { name: 'x', sizes: [1, 2] }), {
+      valid: true,
+      value: { name: 'x', sizes: [1, 2] },
+    })
+  })
+
+  it('reports the path of every mismatch', () => {
+    const result = validateJSON(
+      schema,
+      { mode: 'c', sizes: [1, '2'] },
+      { all: true }
+    )
+
+    assert.equal(result.valid, false)
+    assert.deepEqual(
+      !result.valid && result.issues.map((issue) => issue.path),
+      ['$.name', '$.mode', '$.sizes[1]']
+    )
+  })
+
+  it('allows navigation items without a kind', () => {
+    assert.ok(
+      validateJSON(navigationItemSchema, {
+        text: 'folder',
+        children: [{ text: 'foo', kind: 64, path: 'functions/foo.html' }],
+      }).valid
+    )
+  })
+
+  it('rejects unknown reflection kinds', () => {
+    assert.ok(!validateJSON(searchItemSchema, { url: 'a.html', kind: 3 }).valid)
+    assert.ok(
+      !validateJSON(searchBoostRuleSchema, { kind: 'Clas', factor: 2 }).valid
+    )
+    assert.ok(
+      validateJSON(searchBoostRuleSchema, {
+        kind: ['Class', 'ClassOrInterface'],
+        factor: 2,
+      }).valid
+    )
+  })
+})
+
+describe('gzip JSON', () => {
+  const value = { rows: [{ url: 'index.html', name: 'ä' }] }
+
+  for (const mode of ['gzip', 'plain', 'raw'] as const) {
+    it(`reads what it wrote in ${mode} mode`, async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'typedoc-plugin-lib-utils-'))
+
+      try {
+        const file = join(dir, 'data.js')
+        const jsVariable = mode === 'raw' ? undefined : 'window.data'
+
+        await writeGzipJson(file, value, jsVariable, { mode })
+
+        assert.deepEqual(await readGzipJson(file, jsVariable), value)
+      } finally {
+        await rm(dir, { recursive: true, force: true })
+      }
+    })
+  }
+
+  it('detects the encoding and reads content without the wrapper', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'typedoc-plugin-lib-utils-'))
+
+    try {
+      const file = join(dir, 'data.js')
+      const wrapped = `window.data = ${JSON.stringify(value)}`
+      const utf16be = (content: string) =>
+        Buffer.from(content, 'utf16le').swap16()
+
+      const contents = [
+        Buffer.from(`\uFEFF${wrapped}`, 'utf8'),
+        Buffer.from(`\uFEFF${wrapped}`, 'utf16le'),
+        utf16be(`\uFEFF${wrapped}`),
+        Buffer.from(wrapped, 'utf16le'),
+        utf16be(wrapped),
+        Buffer.from(JSON.stringify(value)),
+      ]
+
+      for (const content of contents) {
+        await writeFile(file, content)
+
+        assert.deepEqual(await readGzipJson(file, 'window.data'), value)
+      }
+
+      await writeGzipJson(file, value)
+
+      assert.deepEqual(await readGzipJson(file, 'window.data'), value)
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('reports the failing stage', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'typedoc-plugin-lib-utils-'))
+
+    try {
+      const file = join(dir, 'data.js')
+
+      await writeFile(
+        file,
+        'window.data = "data:application/octet-stream;base64,AAAA"'
+      )
+
+      await assert.rejects(
+        readGzipJson(file, 'window.data'),
+        (error) => error instanceof GzipJsonError && error.stage === 'gunzip'
+      )
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('writes deterministic files atomically and returns their sizes', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'typedoc-plugin-lib-utils-'))
+
+    try {
+      const file = join(dir, 'data.js')
+      const options = { atomic: true, deterministic: true }
+
+      const summary = await writeGzipJson(file, { b: 1, a: 2 }, 'x', options)
+      const first = await readFile(file)
+
+      await writeGzipJson(file, { a: 2, b: 1 }, 'x', options)
+
+      assert.deepEqual(await readFile(file), first)
+      assert.deepEqual(await readdir(dir), ['data.js'])
+      assert.deepEqual(summary, {
+        file,
+        jsonBytes: '{"a":2,"b":1}'.length,
+        gzipBytes: summary.gzipBytes,
+        fileBytes: first.length,
+      })
+      assert.ok(summary.gzipBytes! > 0)
+
+      const plain = await writeGzipJson(file, value, undefined, {
+        mode: 'plain',
+      })
+
+      assert.equal(plain.gzipBytes, undefined)
+      assert.equal(plain.fileBytes, Buffer.byteLength(JSON.stringify(value)))
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('refuses to wrap raw mode in a JS variable', async () => {
+    await assert.rejects(
+      writeGzipJson('data.js', value, 'window.data', { mode: 'raw' }),
+      {
+        name: 'GzipJsonError',
+        message:
+          "Could not encode data.js (write failed): 'raw' mode is binary and can not be wrapped in window.data",
+      }
+    )
+  })
+})
@@ -0,0 +1,221 @@
+import { strict as assert } from 'node:assert'
+import { after, before, describe, it } from 'node:test'
+import { join } from 'node:path'
+import { readFile } from 'node:fs/promises'
+
+import { ReflectionKind } from 'typedoc'
+
+import {
+  Fixture,
+  FixtureResult,
+  convertFixture,
+  removeFixture,
+  runFixtureTasks,
+} from '../src/testing'
+import {
+  NavigationItem,
+  NavigationTree,
+  alterNavigation,
+  exportNavigation,
+  formatNavigation,
+  getNavigationTaskOrder,
+} from '../src/index'
+
+describe('NavigationTree', () => {
+  const createItems = (): NavigationItem[] => [
+    { text: 'a', path: 'a.html' },
+    { text: 'b', path: 'b.html', children: [{ text: 'c', path: 'c.html' }] },
+  ]
+
+  it('moves items between levels', () => {
+    const tree = new NavigationTree(createItems())
+
+    tree.move(tree.find('c.html')!, { before: tree.find('a.html')! })
+
+    assert.deepEqual(
+      tree.items.map((item) => item.text),
+      ['c', 'a', 'b']
+    )
+    assert.equal(tree.find('b.html')!.children, undefined)
+  })
+
+  it('wraps items in a group', () => {
+    const tree = new NavigationTree(createItems())
+
+    const group = tree.wrap(tree.items.slice(), { text: 'group' })
+
+    assert.deepEqual(tree.items, [group])
+    assert.deepEqual(
+      group.children!.map((item) => item.text),
+      ['a', 'b']
+    )
+  })
+
+  it('rejects inserting an item next to itself without changing the tree', () => {
+    const items = createItems()
+    const tree = new NavigationTree(items)
+
+    assert.throws(() => tree.insertBefore(items[0], items[1], items[0]))
+    assert.deepEqual(items, createItems())
+  })
+})
+
+describe('navigation', () => {
+  let fixture: Fixture
+  let result: FixtureResult
+
+  before(async () => {
+    fixture = await convertFixture(
+      {
+        'src/index.ts': [
+          'export class Foo {}',
+          'export function bar() {}',
+          'export function _hidden() {}',
+        ].join('\n'),
+      },
+      {
+        plugins: [
+          (app) => {
+            alterNavigation(
+              app,
+              (items, { tree }) => {
+                tree.wrap(
+                  items.filter((item) => item.kind === ReflectionKind.Function),
+                  { text: 'Functions' }
+                )
+              },
+              { name: 'group', priority: -1 }
+            )
+
+            alterNavigation(app, () => {}, { name: 'early' })
+
+            formatNavigation(app, (item, { depth, remove }) => {
+              if (item.text.startsWith('_')) {
+                remove()
+              } else {
+                item.text = `${depth}:${item.text}`
+              }
+            })
+          },
+        ],
+      }
+    )
+
+    result = await runFixtureTasks(fixture)
+  })
+
+  after(async () => {
+    await removeFixture(fixture)
+  })
+
+  it('runs alter tasks by priority', () => {
+    assert.deepEqual(getNavigationTaskOrder(fixture.app).alter, [
+      'early',
+      'group',
+    ])
+  })
+
+  it('alters and formats the tree', () => {
+    const texts = (items: NavigationItem[]): unknown[] =>
+      items.map((item) =>
+        item.children ? [item.text, texts(item.children)] : item.text
+      )
+
+    assert.deepEqual(texts(result.navigation), [
+      '0:Foo',
+      ['0:Functions', ['1:bar']],
+    ])
+  })
+})
+
+describe('navigation exports', () => {
+  let fixture: Fixture
+
+  const readExport = async (file: string) =>
+    JSON.parse(
+      await readFile(join(fixture.dir, 'docs', file), 'utf8')
+    ) as unknown
+
+  before(async () => {
+    fixture = await convertFixture(
+      {
+        'src/index.ts': [
+          'export class Foo {}',
+          '/** @deprecated */',
+          'export function bar() {}',
+        ].join('\n'),
+      },
+      {
+        plugins: [
+          (app) => {
+            alterNavigation(app, (items, { tree }) => {
+              tree.wrap(
+                items.filter((item) => item.kind === ReflectionKind.Function),
+                { text: 'Functions' }
+              )
+
+              items.push({ text: 'Home', path: 'https://example.com/' })
+            })
+
+            exportNavigation(app, 'sidebar', { baseUrl: '/api' })
+            exportNavigation(app, 'breadcrumbs')
+            exportNavigation(app, (items) => items.map((item) => item.text), {
+              file: 'texts.json',
+            })
+          },
+        ],
+        typedocOptions: { hostedBaseUrl: 'https://hosted.example.com/api' },
+      }
+    )
+
+    await runFixtureTasks(fixture)
+  })
+
+  after(async () => {
+    await removeFixture(fixture)
+  })
+
+  it('writes the tree with prefixed URLs and kind names', async () => {
+    assert.deepEqual(await readExport('navigation-sidebar.json'), [
+      { text: 'Foo', url: '/api/classes/Foo.html', kind: 'Class' },
+      {
+        text: 'Functions',
+        children: [
+          {
+            text: 'bar',
+            url: '/api/functions/bar.html',
+            kind: 'Function',
+            class: 'deprecated',
+          },
+        ],
+      },
+      { text: 'Home', url: 'https://example.com/' },
+    ])
+  })
+
+  it('writes breadcrumbs prefixed with the hosted base URL', async () => {
+    assert.deepEqual(await readExport('navigation-breadcrumbs.json'), [
+      {
+        text: 'Foo',
+        url: 'https://hosted.example.com/api/classes/Foo.html',
+        kind: 'Class',
+        breadcrumbs: [],
+      },
+      {
+        text: 'bar',
+        url: 'https://hosted.example.com/api/functions/bar.html',
+        kind: 'Function',
+        breadcrumbs: [{ text: 'Functions' }],
+      },
+      { text: 'Home', url: 'https://example.com/', breadcrumbs: [] },
+    ])
+  })
+
+  it('writes custom formats', async () => {
+    assert.deepEqual(await readExport('texts.json'), [
+      'Foo',
+      'Functions',
+      'Home',
+    ])
+  })
+})
@@ -0,0 +1,244 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { Application, LogLevel, Logger } from 'typedoc'
+
+import { convertFixture, removeFixture, runFixtureTasks } from '../src/testing'
+import {
+  JSONSchemaError,
+  alterNavigation,
+  alterSearch,
+  declarePluginOptions,
+  formatSearch,
+  jsonArray,
+  jsonLiteral,
+  jsonNumber,
+  jsonString,
+} from '../src/index'
+
+function captureLogs(app: Application, level: LogLevel) {
+  const messages: string[] = []
+
+  app.logger = new (class extends Logger {
+    override log(message: string, messageLevel: LogLevel) {
+      if (messageLevel === level) {
+        messages.push(message)
+      }
+    }
+  })()
+
+  return messages
+}
+
+describe('callback errors', () => {
+  const source = 'export function foo() {}\nexport function bar() {}'
+
+  const throwForFoo = (app: Application) => {
+    formatSearch(
+      app,
+      (item) => {
+        if (item.name === 'foo') {
+          throw new Error('boom')
+        }
+      },
+      { name: 'thrower' }
+    )
+
+    formatSearch(
+      app,
+      (item) => {
+        item.name = `${item.name}!`
+      },
+      { name: 'marker' }
+    )
+  }
+
+  it('skips the failing callback and logs who registered it', async () => {
+    const fixture = await convertFixture(
+      { 'src/index.ts': source },
+      {
+        plugins: [throwForFoo],
+      }
+    )
+
+    try {
+      const errors = captureLogs(fixture.app, LogLevel.Error)
+
+      const { search } = await runFixtureTasks(fixture)
+
+      assert.deepEqual(search.map((item) => item.name).sort(), ['bar!', 'foo!'])
+      assert.deepEqual(errors, [
+        'formatSearch task "thrower" registered by @mrfigg/typedoc-plugin-lib-utils failed for functions/foo.html: boom',
+      ])
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+
+  it('skips the item with the skipItem policy', async () => {
+    const fixture = await convertFixture(
+      { 'src/index.ts': source },
+      {
+        plugins: [
+          (app) => {
+            throwForFoo(app)
+
+            app.options.setValue('libUtilsCallbackErrors', 'skipItem')
+          },
+        ],
+      }
+    )
+
+    try {
+      captureLogs(fixture.app, LogLevel.Error)
+
+      const { search } = await runFixtureTasks(fixture)
+
+      assert.deepEqual(
+        search.map((item) => item.name),
+        ['bar!']
+      )
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+
+  it('rejects with the abort policy', async () => {
+    const fixture = await convertFixture(
+      { 'src/index.ts': source },
+      {
+        plugins: [
+          (app) => {
+            throwForFoo(app)
+
+            app.options.setValue('libUtilsCallbackErrors', 'abort')
+          },
+        ],
+      }
+    )
+
+    try {
+      captureLogs(fixture.app, LogLevel.Error)
+
+      await assert.rejects(runFixtureTasks(fixture), /boom/)
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+
+  it('allows registering tasks after the options are frozen', async () => {
+    const fixture = await convertFixture({ 'src/index.ts': source })
+
+    try {
+      alterSearch(fixture.app, (items) => {
+        items.splice(0, items.length - 1)
+      })
+
+      const { search } = await runFixtureTasks(fixture)
+
+      assert.equal(search.length, 1)
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+})
+
+describe('post-render timings', () => {
+  it('logs the time of each phase and callback', async () => {
+    const fixture = await convertFixture(
+      { 'src/index.ts': 'export function foo() {}' },
+      {
+        plugins: [
+          (app) => {
+            alterSearch(app, () => {}, { name: 'noop' })
+            formatSearch(app, () => {}, { name: 'rename' })
+            alterNavigation(app, () => {}, { name: 'group' })
+          },
+        ],
+      }
+    )
+
+    try {
+      const messages = captureLogs(fixture.app, LogLevel.Verbose)
+
+      await runFixtureTasks(fixture)
+
+      const timings = messages
+        .map((message) => /^Post-render (.+) took \d+ms$/.exec(message)?.[1])
+        .filter(Boolean)
+        .sort()
+
+      assert.deepEqual(timings, [
+        'alterNavigation group',
+        'alterSearch noop',
+        'formatSearch rename',
+        'navigation',
+        'read navigation.js',
+        'read search.js',
+        'search',
+        'write',
+        'write navigation.js',
+        'write search.js',
+      ])
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+})
+
+describe('declarePluginOptions', () => {
+  const spec = {
+    prefixes: {
+      help: 'Prefixes',
+      schema: jsonArray(jsonString()),
+      defaultValue: ['_'],
+    },
+    mode: {
+      help: 'Mode',
+      schema: jsonLiteral('fast', 'slow'),
+      defaultValue: 'fast' as const,
+    },
+  }
+
+  it('declares namespaced options checked against their schema', async () => {
+    const app = await Application.bootstrap({}, [])
+
+    const getOptions = declarePluginOptions(app, 'test', spec)
+
+    assert.deepEqual(getOptions(), { prefixes: ['_'], mode: 'fast' })
+
+    app.options.setValue('testPrefixes', ['a'])
+
+    assert.deepEqual(getOptions().prefixes, ['a'])
+    assert.throws(() => app.options.setValue('testPrefixes', ['a', 1]), {
+      message:
+        'Invalid value for option testPrefixes:\n  testPrefixes[1]: Expected a string, got 1',
+    })
+  })
+
+  it('rejects an existing option whose value does not match', async () => {
+    const app = await Application.bootstrap({}, [])
+
+    declarePluginOptions(app, 'test', spec)
+
+    assert.doesNotThrow(() => declarePluginOptions(app, 'test', spec))
+    assert.throws(
+      () =>
+        declarePluginOptions(app, 'test', {
+          mode: { help: 'Mode', schema: jsonNumber(), defaultValue: 1 },
+        }),
+      JSONSchemaError
+    )
+  })
+
+  it('uses the defaults once the options are frozen', async () => {
+    const app = await Application.bootstrap({}, [])
+
+    app.options.freeze()
+
+    assert.deepEqual(declarePluginOptions(app, 'test', spec)(), {
+      prefixes: ['_'],
+      mode: 'fast',
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { join } from 'node:path'
+import { writeFile } from 'node:fs/promises'
+
+import { LogLevel, Logger } from 'typedoc'
+
+import { convertFixture, removeFixture } from '../src/testing'
+import {
+  getPackageJson,
+  getPackages,
+  getRepositoryUrl,
+  getWorkspace,
+} from '../src/index'
+
+describe('getPackageJson', () => {
+  it('drops invalid members and returns a copy on every call', async () => {
+    const fixture = await convertFixture({
+      'package.json': JSON.stringify({
+        name: 'mypkg',
+        homepage: 1,
+        keywords: ['a'],
+      }),
+      'src/index.ts': 'export const a = 1',
+    })
+
+    try {
+      const warnings: string[] = []
+
+      fixture.app.logger = new (class extends Logger {
+        override log(message: string, level: LogLevel) {
+          if (level === LogLevel.Warn) {
+            warnings.push(message)
+          }
+        }
+      })()
+
+      const packageJson = getPackageJson(fixture.app)!
+
+      assert.deepEqual(packageJson, { name: 'mypkg', keywords: ['a'] })
+      assert.deepEqual(warnings, [
+        `Ignoring $.homepage in ${join(fixture.dir, 'package.json').replace(/\\/g, '/')}, Expected a string, got 1`,
+      ])
+
+      packageJson.name = 'changed'
+      ;(packageJson.keywords as string[]).push('b')
+
+      assert.deepEqual(getPackageJson(fixture.app), {
+        name: 'mypkg',
+        keywords: ['a'],
+      })
+      assert.equal(warnings.length, 1)
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+
+  it('reads the file again for the next conversion', async () => {
+    const fixture = await convertFixture({
+      'package.json': JSON.stringify({ name: 'mypkg', version: '1.0.0' }),
+      'src/index.ts': 'export const a = 1',
+    })
+
+    try {
+      assert.equal(getPackageJson(fixture.app)!.version, '1.0.0')
+
+      await writeFile(
+        join(fixture.dir, 'package.json'),
+        JSON.stringify({ name: 'mypkg', version: '2.0.0' })
+      )
+
+      assert.equal(getPackageJson(fixture.app)!.version, '1.0.0')
+
+      await fixture.app.convert()
+
+      assert.equal(getPackageJson(fixture.app)!.version, '2.0.0')
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+})
+
+describe('getRepositoryUrl', () => {
+  it('turns repository fields into browsable URLs', () => {
+    assert.deepEqual(
+      [
+        'github:foo/bar',
+        'foo/bar',
+        'gitlab:foo/bar',
+        'git+https://github.com/foo/bar.git',
+        'git@github.com:foo/bar.git',
+        'ssh://git@bitbucket.org/foo/bar.git#main',
+      ].map((repository) => getRepositoryUrl({ repository })),
+      [
+        'https://github.com/foo/bar',
+        'https://github.com/foo/bar',
+        'https://gitlab.com/foo/bar',
+        'https://github.com/foo/bar',
+        'https://github.com/foo/bar',
+        'https://bitbucket.org/foo/bar',
+      ]
+    )
+  })
+
+  it('appends the directory of a monorepo package', () => {
+    assert.equal(
+      getRepositoryUrl({
+        repository: {
+          type: 'git',
+          url: 'https://github.com/foo/bar.git',
+          directory: './packages/baz/',
+        },
+      }),
+      'https://github.com/foo/bar/tree/HEAD/packages/baz'
+    )
+    assert.equal(getRepositoryUrl({}), undefined)
+  })
+})
+
+describe('getPackages', () => {
+  const files = {
+    'packages/a/package.json': JSON.stringify({ name: 'a', version: '1.0.0' }),
+    'packages/a/src/index.ts': 'export const a = 1',
+    'packages/b/package.json': JSON.stringify({ name: 'b' }),
+    'packages/b/src/index.ts': 'export const b = 1',
+    'packages/ignored/package.json': JSON.stringify({ name: 'ignored' }),
+    'tools/c/package.json': JSON.stringify({ name: 'c' }),
+  }
+
+  it('expands the globs of an npm workspace', async () => {
+    const fixture = await convertFixture({
+      ...files,
+      'package.json': JSON.stringify({
+        name: 'root',
+        private: true,
+        workspaces: ['packages/*', '!packages/ignored', 'tools/**'],
+      }),
+    })
+
+    try {
+      const dir = fixture.dir.replace(/\\/g, '/')
+
+      assert.deepEqual(getWorkspace(fixture.app), {
+        dir,
+        manager: 'npm',
+        patterns: ['packages/*', '!packages/ignored', 'tools/**'],
+      })
+      assert.deepEqual(
+        getPackages(fixture.app)
+          .map((info) => [info.packageJson.name, info.file])
+          .sort(),
+        [
+          ['a', `${dir}/packages/a/package.json`],
+          ['b', `${dir}/packages/b/package.json`],
+          ['c', `${dir}/tools/c/package.json`],
+        ]
+      )
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+
+  it('reads the packages of a pnpm workspace', async () => {
+    const fixture = await convertFixture({
+      ...files,
+      'pnpm-workspace.yaml': [
+        'packages:',
+        "  - 'packages/*'",
+        '  - "!packages/ignored" # not published',
+        'catalog:',
+        '  - tools/*',
+      ].join('\n'),
+    })
+
+    try {
+      assert.deepEqual(getWorkspace(fixture.app)?.patterns, [
+        'packages/*',
+        '!packages/ignored',
+      ])
+      assert.deepEqual(
+        getPackages(fixture.app)
+          .map((info) => info.packageJson.name)
+          .sort(),
+        ['a', 'b']
+      )
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+})
@@ -0,0 +1,83 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { join } from 'node:path'
+import { readFile } from 'node:fs/promises'
+
+import { convertFixture, removeFixture, runFixtureTasks } from '../src/testing'
+import { alterPages, alterSearch } from '../src/index'
+
+describe('pages', () => {
+  it('runs every alter callback on each page and writes it once', async () => {
+    const reflections = new Map<string, string>()
+
+    const fixture = await convertFixture(
+      { 'src/index.ts': 'export function foo() {}' },
+      {
+        plugins: [
+          (app) => {
+            alterPages(
+              app,
+              (page) => {
+                page.contents = page.contents.replace('</body>', 'b</body>')
+              },
+              { name: 'second' }
+            )
+
+            alterPages(
+              app,
+              (page, { reflection }) => {
+                reflections.set(page.url, reflection.name)
+
+                page.contents = page.contents.replace('</body>', 'a</body>')
+              },
+              { name: 'first', priority: 1 }
+            )
+          },
+        ],
+      }
+    )
+
+    try {
+      const docs = join(fixture.dir, 'docs')
+
+      await fixture.app.generateDocs(fixture.project, docs)
+
+      const html = await readFile(join(docs, 'functions', 'foo.html'), 'utf8')
+
+      assert.ok(html.includes('ab</body>'))
+      assert.equal(reflections.get('functions/foo.html'), 'foo')
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+
+  it('are skipped by runFixtureTasks', async () => {
+    let altered = 0
+
+    const fixture = await convertFixture(
+      { 'src/index.ts': 'export function foo() {}' },
+      {
+        plugins: [
+          (app) => {
+            alterPages(app, () => {
+              altered++
+            })
+
+            alterSearch(app, (items) => {
+              items.push({ url: 'functions/foo.html#extra', name: 'extra' })
+            })
+          },
+        ],
+      }
+    )
+
+    try {
+      const { search } = await runFixtureTasks(fixture)
+
+      assert.ok(search.some((item) => item.name === 'extra'))
+      assert.equal(altered, 0)
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+})
@@ -0,0 +1,115 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { join } from 'node:path'
+import { readFile } from 'node:fs/promises'
+
+import { convertFixture, removeFixture, runFixtureTasks } from '../src/testing'
+import { alterNavigation, alterSearch, formatSearch } from '../src/index'
+
+describe('change report', () => {
+  const convert = (changeReport: string) =>
+    convertFixture(
+      { 'src/index.ts': 'export function foo() {}\nexport function bar() {}' },
+      {
+        plugins: [
+          (app) => {
+            alterSearch(
+              app,
+              (items) => {
+                items.push({ url: 'functions/foo.html#extra', name: 'extra' })
+              },
+              { name: 'extra' }
+            )
+
+            formatSearch(
+              app,
+              (item, { remove }) => {
+                if (item.name === 'bar') {
+                  remove()
+                } else if (item.name === 'foo') {
+                  item.boost = 2
+                }
+              },
+              { name: 'tweak' }
+            )
+
+            alterNavigation(app, () => {}, { name: 'noop' })
+
+            app.options.setValue('libUtilsChangeReport', changeReport)
+          },
+        ],
+      }
+    )
+
+  it('lists the changes of each callback as JSON', async () => {
+    const fixture = await convert('json')
+
+    try {
+      await runFixtureTasks(fixture)
+
+      const report = JSON.parse(
+        await readFile(join(fixture.dir, 'docs', 'change-report.json'), 'utf8')
+      ) as unknown
+
+      assert.deepEqual(report, {
+        search: {
+          'alterSearch extra': {
+            added: ['functions/foo.html#extra'],
+            removed: [],
+            changed: [],
+          },
+          'formatSearch tweak': {
+            added: [],
+            removed: ['functions/bar.html'],
+            changed: [
+              {
+                item: 'functions/foo.html',
+                fields: { boost: { before: 1, after: 2 } },
+              },
+            ],
+          },
+        },
+        navigation: {
+          'alterNavigation noop': { added: [], removed: [], changed: [] },
+        },
+      })
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+
+  it('lists the changes of each callback as markdown', async () => {
+    const fixture = await convert('markdown')
+
+    try {
+      await runFixtureTasks(fixture)
+
+      assert.equal(
+        await readFile(join(fixture.dir, 'docs', 'change-report.md'), 'utf8'),
+        [
+          '# Change report',
+          '',
+          '## Search',
+          '',
+          '### alterSearch extra',
+          '',
+          '- Added `functions/foo.html#extra`',
+          '',
+          '### formatSearch tweak',
+          '',
+          '- Removed `functions/bar.html`',
+          '- Changed `functions/foo.html`: boost `1` → `2`',
+          '',
+          '## Navigation',
+          '',
+          '### alterNavigation noop',
+          '',
+          'No changes.',
+          '',
+        ].join('\n')
+      )
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+})
@@ -0,0 +1,400 @@
+import { strict as assert } from 'node:assert'
+import { after, before, describe, it } from 'node:test'
+import { join } from 'node:path'
+import { readFile } from 'node:fs/promises'
+
+import {
+  Fixture,
+  FixtureResult,
+  convertFixture,
+  removeFixture,
+  runFixtureTasks,
+} from '../src/testing'
+import {
+  SearchChunk,
+  SearchFlag,
+  SearchRecord,
+  addSearchBoosts,
+  alterSearch,
+  configureSearch,
+  exportSearch,
+  formatSearch,
+  getSearchTaskOrder,
+} from '../src/index'
+
+describe('search', () => {
+  let fixture: Fixture
+  let result: FixtureResult
+
+  before(async () => {
+    fixture = await convertFixture(
+      {
+        'src/index.ts': [
+          'export class Foo {}',
+          '/**',
+          ' * Intro',
+          ' *',
+          ' * ## First *part*',
+          ' *',
+          ' * One',
+          ' *',
+          ' * ## Second',
+          ' *',
+          ' * Two',
+          ' */',
+          'export function bar() {}',
+          'export function _hidden() {}',
+        ].join('\n'),
+      },
+      {
+        plugins: [
+          (app) => {
+            alterSearch(
+              app,
+              (items) => {
+                items.find((item) => item.name === 'baz')!.name += 'Renamed'
+              },
+              { name: 'second', after: 'first' }
+            )
+
+            alterSearch(
+              app,
+              (items) => {
+                items.find((item) => item.name === 'bar')!.name = 'baz'
+              },
+              { name: 'first' }
+            )
+
+            formatSearch(app, (item, { remove }) => {
+              if (item.name?.startsWith('_')) {
+                remove()
+              }
+            })
+
+            addSearchBoosts(app, [{ kind: 'Class', factor: 3 }])
+
+            exportSearch(app, 'records')
+            exportSearch(app, 'chunks')
+          },
+        ],
+        typedocOptions: { searchInComments: true },
+      }
+    )
+
+    result = await runFixtureTasks(fixture)
+  })
+
+  after(async () => {
+    await removeFixture(fixture)
+  })
+
+  it('runs alter tasks in before/after order', () => {
+    assert.deepEqual(getSearchTaskOrder(fixture.app).alter, ['first', 'second'])
+    assert.ok(result.search.some((item) => item.name === 'bazRenamed'))
+  })
+
+  it('removes rows from the rows and the index', () => {
+    assert.ok(!result.search.some((item) => item.name === '_hidden'))
+    assert.deepEqual(result.index.search('_hidden'), [])
+  })
+
+  it('indexes altered rows', () => {
+    const [match] = result.index.search('bazRenamed')
+
+    assert.equal(result.search[Number(match.ref)].name, 'bazRenamed')
+  })
+
+  it('applies boost rules by kind', async () => {
+    const records = JSON.parse(
+      await readFile(join(fixture.dir, 'docs', 'search-records.json'), 'utf8')
+    ) as SearchRecord[]
+
+    assert.deepEqual(
+      records.map((record) => [record.name, record.boost]),
+      [
+        ['bazRenamed', 1],
+        ['Foo', 3],
+        ['constructor', 1],
+      ]
+    )
+  })
+
+  it('splits chunks on the headings of the comment', async () => {
+    const chunks = JSON.parse(
+      await readFile(join(fixture.dir, 'docs', 'search-chunks.json'), 'utf8')
+    ) as SearchChunk[]
+
+    assert.deepEqual(
+      chunks
+        .filter((chunk) => chunk.name === 'bazRenamed')
+        .map((chunk) => [chunk.url.split('#')[1], chunk.heading]),
+      [
+        [undefined, undefined],
+        ['first-part', 'First part'],
+        ['second', 'Second'],
+      ]
+    )
+  })
+})
+
+describe('search boosts', () => {
+  it('applies rules from the libUtilsSearchBoosts option', async () => {
+    const fixture = await convertFixture(
+      {
+        'src/index.ts': [
+          '/** @deprecated */',
+          'export function old() {}',
+          'export function current() {}',
+        ].join('\n'),
+      },
+      {
+        plugins: [
+          (app) => {
+            exportSearch(app, 'records')
+
+            app.options.setValue('libUtilsSearchBoosts', [
+              { tag: '@deprecated', factor: 0.5 },
+            ])
+          },
+        ],
+      }
+    )
+
+    try {
+      await runFixtureTasks(fixture)
+
+      const records = JSON.parse(
+        await readFile(join(fixture.dir, 'docs', 'search-records.json'), 'utf8')
+      ) as SearchRecord[]
+
+      assert.deepEqual(
+        records.map((record) => [record.name, record.boost]).sort(),
+        [
+          ['current', 1],
+          ['old', 0.5],
+        ]
+      )
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+})
+
+describe('search flags', () => {
+  const files = {
+    'src/index.ts': [
+      '/** @deprecated */',
+      'export function old() {}',
+      '/** @beta */',
+      'export function preview() {}',
+      'export class Foo {',
+      '  protected bar() {}',
+      '}',
+    ].join('\n'),
+  }
+
+  const convert = async (flagClasses?: SearchFlag[]) => {
+    const flags = new Map<string, SearchFlag[]>()
+
+    const fixture = await convertFixture(files, {
+      plugins: [
+        (app) => {
+          configureSearch(app, { flagClasses })
+
+          formatSearch(app, (item, context) => {
+            flags.set(item.name!, [...context.flags])
+          })
+        },
+      ],
+    })
+
+    return { fixture, flags }
+  }
+
+  const classes = (search: { name?: string; classes?: string }[]) =>
+    Object.fromEntries(search.map((item) => [item.name, item.classes]))
+
+  it('adds classes for flagged reflections', async () => {
+    const { fixture, flags } = await convert()
+
+    try {
+      const { search } = await runFixtureTasks(fixture)
+
+      assert.deepEqual(classes(search), {
+        old: 'deprecated',
+        preview: 'beta',
+        Foo: '',
+        constructor: '',
+        bar: 'protected tsd-is-protected',
+      })
+      assert.deepEqual(flags.get('bar'), ['protected'])
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+
+  it('passes every flag to format callbacks', async () => {
+    const { fixture, flags } = await convert(['protected'])
+
+    try {
+      const { search } = await runFixtureTasks(fixture)
+
+      assert.equal(classes(search).old, '')
+      assert.equal(classes(search).bar, 'protected tsd-is-protected')
+      assert.deepEqual(flags.get('old'), ['deprecated'])
+      assert.deepEqual(flags.get('preview'), ['beta'])
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+})
+
+describe('search facets', () => {
+  const files = {
+    'package.json': JSON.stringify({ name: 'mypkg' }),
+    'src/alpha.ts': [
+      '/** @category HTTP */',
+      'export function get() {}',
+      'export function other() {}',
+    ].join('\n'),
+    'src/beta.ts': 'export function put() {}',
+  }
+
+  it('adds no facets by default', async () => {
+    const fixture = await convertFixture(files)
+
+    try {
+      const { search, facetIndex } = await runFixtureTasks(fixture)
+
+      assert.ok(search.every((item) => item.facets === undefined))
+      assert.equal(facetIndex, undefined)
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+
+  it('indexes enabled facets apart from ordinary search', async () => {
+    const fixture = await convertFixture(files, {
+      plugins: [
+        (app) => {
+          configureSearch(app, { facets: ['module', 'package', 'category'] })
+        },
+      ],
+    })
+
+    try {
+      const { search, index, facetIndex } = await runFixtureTasks(fixture)
+
+      const names = (results: { ref: string }[]) =>
+        results.map((result) => search[Number(result.ref)].name).sort()
+
+      assert.deepEqual(search.find((item) => item.name === 'get')!.facets, {
+        module: ['alpha'],
+        package: ['mypkg'],
+        category: ['HTTP'],
+      })
+      assert.deepEqual(names(index.search('mypkg')), [])
+      assert.deepEqual(names(index.search('alpha')), ['alpha'])
+      assert.deepEqual(names(facetIndex!.search('category:http')), ['get'])
+      assert.deepEqual(names(facetIndex!.search('module:alpha')), [
+        'get',
+        'other',
+      ])
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+
+  it('indexes facets added by format callbacks', async () => {
+    const fixture = await convertFixture(
+      {
+        ...files,
+        'src/beta.ts': '/** @alpha */\nexport function put() {}',
+      },
+      {
+        plugins: [
+          (app) => {
+            configureSearch(app, { facets: ['group', 'tag'] })
+
+            formatSearch(app, (item) => {
+              if (item.name === 'other') {
+                item.facets = { ...item.facets, audience: ['internal'] }
+              }
+            })
+          },
+        ],
+      }
+    )
+
+    try {
+      const { search, facetIndex } = await runFixtureTasks(fixture)
+
+      const names = (results: { ref: string }[]) =>
+        results.map((result) => search[Number(result.ref)].name).sort()
+
+      assert.deepEqual(search.find((item) => item.name === 'put')!.facets, {
+        group: ['Functions'],
+        tag: ['alpha'],
+      })
+      assert.deepEqual(names(facetIndex!.search('tag:alpha')), ['put'])
+      assert.deepEqual(names(facetIndex!.search('audience:internal')), [
+        'other',
+      ])
+    } finally {
+      await removeFixture(fixture)
+    }
+  })
+})
+
+describe('search exports', () => {
+  let fixture: Fixture
+
+  const readRecords = async (file: string) =>
+    JSON.parse(
+      await readFile(join(fixture.dir, 'docs', file), 'utf8')
+    ) as SearchRecord[]
+
+  before(async () => {
+    fixture = await convertFixture(
+      {
+        'src/index.ts': '/** Adds *two* numbers. */\nexport function add() {}',
+      },
+      {
+        plugins: [
+          (app) => {
+            exportSearch(app, 'records', {
+              file: 'base.json',
+              baseUrl: 'https://example.com/docs',
+            })
+
+            exportSearch(app, 'records', { file: 'hosted.json' })
+          },
+        ],
+        typedocOptions: { hostedBaseUrl: 'https://hosted.example.com/api/' },
+      }
+    )
+
+    await runFixtureTasks(fixture)
+  })
+
+  after(async () => {
+    await removeFixture(fixture)
+  })
+
+  it('exports comment text even if comments are not searched', async () => {
+    const [record] = await readRecords('base.json')
+
+    assert.equal(record.comment, 'Adds two numbers.')
+  })
+
+  it('prefixes URLs with the base URL and a slash', async () => {
+    const [base] = await readRecords('base.json')
+    const [hosted] = await readRecords('hosted.json')
+
+    assert.equal(base.url, 'https://example.com/docs/functions/add.html')
+    assert.equal(
+      hosted.url,
+      'https://hosted.example.com/api/functions/add.html'
+    )
+  })
+})